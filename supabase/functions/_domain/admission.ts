@@ -0,0 +1,51 @@
+import { ADMISSION, BATCH_SIZING } from './constants.ts';
+
+export interface AdmissionInput {
+  liveWorkers: number;      // product-batches runs queued or executing
+  pendingBatches: number;   // Claimable PENDING batches across all sellers, including the new ones
+  priority: 'HIGH' | 'LOW';
+  maxWorkers?: number;
+}
+
+export interface AdmissionDecision {
+  admit: boolean;
+  reason: string;
+  liveWorkers: number;
+  maxWorkers: number;
+  pendingBatches: number;
+  backlogCapacity: number;  // Batches the live workers are expected to absorb on their own
+}
+
+/**
+ * Decide whether new queued work needs a new product-batches run.
+ * Workers claim across sellers until the queue is empty and trigger a successor if claimable
+ * batches remain when they exit, so a running worker covers new batches by itself - another
+ * run only helps when none is live, or when the backlog
+ * outgrows what the live workers clear in a few claim loops and there is room below the
+ * task's concurrency limit.
+ */
+export function decideAdmission(input: AdmissionInput): AdmissionDecision {
+  const maxWorkers = input.maxWorkers ?? BATCH_SIZING.WORKER_COUNT;
+  const liveWorkers = Math.max(0, input.liveWorkers);
+  const pendingBatches = Math.max(0, input.pendingBatches);
+  const backlogCapacity = liveWorkers * ADMISSION.CLAIM_SIZE * ADMISSION.BACKLOG_LOOPS_PER_WORKER;
+  const base = { liveWorkers, maxWorkers, pendingBatches, backlogCapacity };
+
+  if (liveWorkers === 0) {
+    return { ...base, admit: true, reason: 'No live workers' };
+  }
+
+  if (liveWorkers >= maxWorkers) {
+    return { ...base, admit: false, reason: `At worker limit (${liveWorkers}/${maxWorkers}) - live workers will claim the new batches` };
+  }
+
+  if (input.priority === 'HIGH') {
+    return { ...base, admit: true, reason: `HIGH priority with capacity left (${liveWorkers}/${maxWorkers} workers)` };
+  }
+
+  if (pendingBatches > backlogCapacity) {
+    return { ...base, admit: true, reason: `Backlog ${pendingBatches} batches exceeds ${backlogCapacity} the ${liveWorkers} live workers absorb` };
+  }
+
+  return { ...base, admit: false, reason: `Backlog ${pendingBatches} batches within ${backlogCapacity} the ${liveWorkers} live workers absorb` };
+}
@@ -1,4 +1,18 @@
-import { LIMITS } from './constants.ts';
+import { LIMITS, BATCH_SIZING, BATCH_RETRY, ERROR_TYPES, INSERT_BISECT } from './constants.ts';
+import { getOptimalBatchSize } from './tokens.ts';
+import { deduplicateAsins } from './asins.ts';
+
+export interface BatchSizeDecision {
+  size: number;
+  reason: string;
+}
+
+export interface BatchRetryDecision {
+  retry: boolean;
+  retryCount: number;           // Retries used including this one
+  nextAttemptAt: Date | null;
+  reason: string;
+}
 
 export function calculateBatchCount(totalProducts: number, maxBatchSize: number = LIMITS.BATCH_SIZE): number {
   if (totalProducts <= 0 || maxBatchSize <= 0) {
@@ -22,6 +36,17 @@ export function splitIntoBatches<T>(items: T[], maxSize: number = LIMITS.BATCH_S
   return batches;
 }
 
+// Halves for bisecting a failed batch - the first half gets the extra item
+export function splitInHalves<T>(items: T[]): [T[], T[]] {
+  const middle = Math.ceil(items.length / 2);
+  return [items.slice(0, middle), items.slice(middle)];
+}
+
+// Only row-level failures are worth bisecting - anything else (timeouts, connections) fails every half too
+export function isRowDataError(sqlstate?: string | null): boolean {
+  return !!sqlstate && (INSERT_BISECT.ROW_ERROR_CLASSES as readonly string[]).includes(sqlstate.slice(0, 2));
+}
+
 export function shouldProcessInBatches(count: number): boolean {
   return count > LIMITS.EDGE_THRESHOLD;
 }
@@ -143,4 +168,112 @@ export function getBatchProgress(processed: number, total: number): number {
   }
   
   return Math.min(100, Math.round((processed / total) * 100));
-}
\ No newline at end of file
+}
+
+/**
+ * Batch size for a seller's queued work.
+ * Full batches when the bucket can feed every worker one, smaller batches when tokens
+ * are scarce so claims keep succeeding, and small sellers spread across all workers.
+ */
+export function chooseBatchSize(
+  totalProducts: number,
+  availableTokens: number,
+  workerCount: number = BATCH_SIZING.WORKER_COUNT
+): BatchSizeDecision {
+  if (totalProducts <= 0) {
+    return { size: 0, reason: 'No products' };
+  }
+  
+  const workers = Math.max(1, workerCount);
+  const tokenLimitedSize = getOptimalBatchSize(Math.floor(availableTokens / workers), LIMITS.MAX_BATCH_SIZE);
+  
+  if (tokenLimitedSize < LIMITS.MAX_BATCH_SIZE) {
+    const size = Math.min(totalProducts, Math.max(BATCH_SIZING.MIN_BATCH_SIZE, tokenLimitedSize));
+    return {
+      size,
+      reason: `Tokens scarce (${availableTokens} available across ${workers} workers): ${size}-product batches`
+    };
+  }
+  
+  if (totalProducts < workers * LIMITS.MAX_BATCH_SIZE) {
+    // One share per worker, but never shares below MIN_BATCH_SIZE
+    const shareCount = Math.min(workers, Math.max(1, Math.floor(totalProducts / BATCH_SIZING.MIN_BATCH_SIZE)));
+    const shares = distributeBatchesEvenly(totalProducts, shareCount);
+    const size = Math.max(...shares.map(share => share.items));
+    if (shares.length > 1 && size < LIMITS.MAX_BATCH_SIZE) {
+      return {
+        size,
+        reason: `Spread ${totalProducts} products across ${shares.length} of ${workers} workers: ${size}-product batches`
+      };
+    }
+  }
+  
+  const size = Math.min(totalProducts, LIMITS.MAX_BATCH_SIZE);
+  return {
+    size,
+    reason: `Tokens available (${availableTokens}): full ${size}-product batches`
+  };
+}
+
+// Exponential backoff for the nth retry (1-based), never sooner than Keepa's own retry hint
+export function calculateRetryBackoff(retryNumber: number, retryAfterMs: number = 0): number {
+  const exponential = BATCH_RETRY.BASE_DELAY_MS * Math.pow(2, Math.max(0, retryNumber - 1));
+  return Math.min(BATCH_RETRY.MAX_DELAY_MS, Math.max(exponential, retryAfterMs));
+}
+
+/**
+ * Whether a failed queued batch goes back to PENDING.
+ * Only TRANSIENT failures retry, and only until BATCH_RETRY.MAX_ATTEMPTS attempts have run.
+ */
+export function planBatchRetry(
+  errorType: 'TRANSIENT' | 'HARD' | undefined,
+  previousRetries: number,
+  retryAfterMs?: number,
+  now: number = Date.now()
+): BatchRetryDecision {
+  if (errorType !== ERROR_TYPES.TRANSIENT) {
+    return { retry: false, retryCount: previousRetries, nextAttemptAt: null, reason: 'Hard failure - not retried' };
+  }
+  
+  const attempts = previousRetries + 1;
+  if (attempts >= BATCH_RETRY.MAX_ATTEMPTS) {
+    return {
+      retry: false,
+      retryCount: previousRetries,
+      nextAttemptAt: null,
+      reason: `Gave up after ${attempts} attempts`
+    };
+  }
+  
+  const retryCount = previousRetries + 1;
+  const delayMs = calculateRetryBackoff(retryCount, retryAfterMs);
+  return {
+    retry: true,
+    retryCount,
+    nextAttemptAt: new Date(now + delayMs),
+    reason: `Retry ${retryCount}/${BATCH_RETRY.MAX_ATTEMPTS - 1} in ${Math.round(delayMs / 1000)}s`
+  };
+}
+
+/**
+ * Idempotency key for enqueueing one seller's ASIN set.
+ * Order and case don't matter, so concurrent lookups that found the same new ASINs
+ * produce the same key and collide on the product_batches unique index.
+ */
+export function getEnqueueKey(sellerUuid: string, asins: string[]): string {
+  const canonical = deduplicateAsins(asins).sort();
+  const text = canonical.join(',');
+
+  // Two independent 32-bit FNV-1a style passes -> 64-bit digest
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+    h2 ^= h2 >>> 15;
+  }
+
+  const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+  return `${sellerUuid}:${canonical.length}:${hex(h1)}${hex(h2)}`;
+}
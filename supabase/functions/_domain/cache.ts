@@ -0,0 +1,42 @@
+import { CACHE_DURATION } from './constants.ts';
+
+export function getProductCacheKey(asin: string, domain: number): string {
+  return `${asin}-${domain}`;
+}
+
+export function isCacheFresh(
+  fetchedAt: string | null | undefined,
+  maxAgeMs: number = CACHE_DURATION.PRODUCT,
+  now: number = Date.now()
+): boolean {
+  if (!fetchedAt) {
+    return false;
+  }
+  
+  const fetchedTime = new Date(fetchedAt).getTime();
+  
+  if (isNaN(fetchedTime)) {
+    return false;
+  }
+  
+  return now - fetchedTime < maxAgeMs;
+}
+
+export function partitionByCache<T>(
+  asins: string[],
+  domain: number,
+  cached: Map<string, T>
+): { hits: string[]; misses: string[] } {
+  const hits: string[] = [];
+  const misses: string[] = [];
+  
+  for (const asin of asins) {
+    if (cached.has(getProductCacheKey(asin, domain))) {
+      hits.push(asin);
+    } else {
+      misses.push(asin);
+    }
+  }
+  
+  return { hits, misses };
+}
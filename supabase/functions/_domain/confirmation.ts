@@ -0,0 +1,51 @@
+import { CONFIRMATION } from './constants.ts';
+
+export interface ConfirmationOffer {
+  enqueueKey: string | null;
+  batchIds: string[];
+  productCount: number;
+  estimatedTokens: number;
+  requestedBy: string | null;
+  offeredTo: string[];      // Every user asked so far (any of them may confirm)
+  declinedBy: string[];
+}
+
+export function needsConfirmation(newAsinCount: number, threshold: number = CONFIRMATION.THRESHOLD): boolean {
+  return newAsinCount > threshold;
+}
+
+// Users who were offered the batches and haven't declined them
+export function getOpenOffers(offer: Pick<ConfirmationOffer, 'offeredTo' | 'declinedBy'>): string[] {
+  const declined = new Set(offer.declinedBy);
+  return offer.offeredTo.filter(userId => !declined.has(userId));
+}
+
+export interface DeclinePlan {
+  declinedBy: string[];
+  offeredTo: string[];
+  nextUserId: string | null;   // Tracker newly offered the batches
+  cancel: boolean;             // Nobody left to ask - drop the group
+}
+
+/**
+ * After a decline: offer the group to the next user tracking the seller who hasn't
+ * been asked yet. The group is cancelled only when no tracker is left to ask and
+ * every user already asked has declined.
+ */
+export function planDecline(
+  offer: Pick<ConfirmationOffer, 'offeredTo' | 'declinedBy'>,
+  userId: string,
+  trackerIds: string[]
+): DeclinePlan {
+  const declinedBy = [...new Set([...offer.declinedBy, userId])];
+  const offered = new Set([...offer.offeredTo, userId]);
+  const nextUserId = trackerIds.find(trackerId => !offered.has(trackerId)) ?? null;
+  const offeredTo = nextUserId ? [...offered, nextUserId] : [...offered];
+
+  return {
+    declinedBy,
+    offeredTo,
+    nextUserId,
+    cancel: !nextUserId && getOpenOffers({ offeredTo, declinedBy }).length === 0
+  };
+}
@@ -8,6 +8,9 @@ export const LIMITS = {
   EDGE_FUNCTION_LIMIT: 50,
   MAX_BATCH_SIZE: 100,
   DEFAULT_DOMAIN: 1,
+  EDGE_MAX_TOKEN_WAIT_MS: 20000,
+  KEEPA_CHUNK_RETRIES: 2,
+  KEEPA_CHUNK_RETRY_DELAY_MS: 2000,
 } as const;
 
 export const KEEPA = {
@@ -15,22 +18,67 @@ export const KEEPA = {
   TOKENS_PER_SELLER: 10,
   BUCKET_SIZE: 15000,
   REGEN_RATE: 250,
+  REFILL_INTERVAL_MS: 60000,
+  MAX_CONCURRENT_REQUESTS: 3,
+  SHARED_STATE_SYNC_MS: 5000,   // How often a scheduler re-reads the bucket other processes saw (token_ledger)
   BASE_URL: 'https://api.keepa.com',
 } as const;
 
-export const DOMAINS = [1, 2, 3, 4, 5, 6, 8, 9, 10, 11] as const;
+// Marketplace registry keyed by Keepa domain id - adding a marketplace is one entry here.
+// priceDivisor converts Keepa's integer prices (smallest currency unit) into amounts.
+// The 20261019120500_marketplace_currency migration backfills from a copy of this list.
+export const MARKETPLACES: Record<number, {
+  host: string;
+  currency: string;
+  priceDivisor: number;
+  locale: string;
+  timezone: string;
+}> = {
+  1: { host: 'amazon.com', currency: 'USD', priceDivisor: 100, locale: 'en-US', timezone: 'America/Los_Angeles' },
+  2: { host: 'amazon.co.uk', currency: 'GBP', priceDivisor: 100, locale: 'en-GB', timezone: 'Europe/London' },
+  3: { host: 'amazon.de', currency: 'EUR', priceDivisor: 100, locale: 'de-DE', timezone: 'Europe/Berlin' },
+  4: { host: 'amazon.fr', currency: 'EUR', priceDivisor: 100, locale: 'fr-FR', timezone: 'Europe/Paris' },
+  5: { host: 'amazon.co.jp', currency: 'JPY', priceDivisor: 1, locale: 'ja-JP', timezone: 'Asia/Tokyo' },
+  6: { host: 'amazon.ca', currency: 'CAD', priceDivisor: 100, locale: 'en-CA', timezone: 'America/Toronto' },
+  8: { host: 'amazon.it', currency: 'EUR', priceDivisor: 100, locale: 'it-IT', timezone: 'Europe/Rome' },
+  9: { host: 'amazon.es', currency: 'EUR', priceDivisor: 100, locale: 'es-ES', timezone: 'Europe/Madrid' },
+  10: { host: 'amazon.in', currency: 'INR', priceDivisor: 100, locale: 'en-IN', timezone: 'Asia/Kolkata' },
+  11: { host: 'amazon.com.mx', currency: 'MXN', priceDivisor: 100, locale: 'es-MX', timezone: 'America/Mexico_City' },
+};
 
-export const KEEPA_DOMAINS: Record<number, string> = {
-  1: 'amazon.com',
-  2: 'amazon.co.uk',
-  3: 'amazon.de',
-  4: 'amazon.fr',
-  5: 'amazon.co.jp',
-  6: 'amazon.ca',
-  8: 'amazon.it',
-  9: 'amazon.es',
-  10: 'amazon.in',
-  11: 'amazon.com.mx',
+export const DOMAINS: number[] = Object.keys(MARKETPLACES).map(Number);
+
+export const KEEPA_DOMAINS: Record<number, string> = Object.fromEntries(
+  Object.entries(MARKETPLACES).map(([domain, marketplace]) => [domain, marketplace.host])
+);
+
+// Per-plan entitlements keyed by subscriptions.plan_type, listed cheapest first.
+// LIMITS holds the system-wide caps.
+export const PLAN_ENTITLEMENTS: Record<string, {
+  label: string;
+  maxProductsPerSeller: number;
+  maxTrackedSellers: number;
+  refreshIntervalMs: number;      // How long a seller-lookup result stays fresh
+  monitoringIntervalMs: number;   // How often keepa-discovery re-checks tracked sellers
+  monthlyTokenBudget: number;     // Keepa tokens per calendar month (UTC)
+}> = {
+  basic: { label: 'Basic', maxProductsPerSeller: 1000, maxTrackedSellers: 5, refreshIntervalMs: 24 * 60 * 60 * 1000, monitoringIntervalMs: 24 * 60 * 60 * 1000, monthlyTokenBudget: 150000 },
+  standard: { label: 'Standard', maxProductsPerSeller: 3000, maxTrackedSellers: 25, refreshIntervalMs: 24 * 60 * 60 * 1000, monitoringIntervalMs: 12 * 60 * 60 * 1000, monthlyTokenBudget: 500000 },
+  pro: { label: 'Pro', maxProductsPerSeller: 10000, maxTrackedSellers: 100, refreshIntervalMs: 12 * 60 * 60 * 1000, monitoringIntervalMs: 6 * 60 * 60 * 1000, monthlyTokenBudget: 2000000 },
+  enterprise: { label: 'Enterprise', maxProductsPerSeller: 25000, maxTrackedSellers: 500, refreshIntervalMs: 6 * 60 * 60 * 1000, monitoringIntervalMs: 2 * 60 * 60 * 1000, monthlyTokenBudget: 6000000 },
+};
+
+export const PLAN = {
+  DEFAULT: 'standard',        // Unmapped plan_type values (stripe-webhooks stores 'standard' for unknown prices)
+  NO_SUBSCRIPTION: 'basic',   // Users without an active or trialing subscription
+  ACTIVE_STATUSES: ['active', 'trialing'] as string[],
+} as const;
+
+// keepa-discovery monitoring cycle
+export const MONITORING = {
+  MAX_SELLERS_PER_RUN: 50,
+  CANDIDATE_POOL: 200,        // Stale sellers read per page before per-plan filtering
+  MAX_CANDIDATE_PAGES: 10,    // Pages read per run while looking for sellers due under their plan
 } as const;
 
 export const BATCH_STATUS = {
@@ -39,6 +87,20 @@ export const BATCH_STATUS = {
   COMPLETED: 'COMPLETED',
   FAILED: 'FAILED',
   PARTIAL: 'PARTIAL',
+  DEAD_LETTER: 'DEAD_LETTER',   // Terminal failure awaiting admin requeue/discard
+  DISCARDED: 'DISCARDED',       // Dead letter an admin dropped (or re-split into new batches)
+  CANCELLED: 'CANCELLED',       // Stopped by the user before (or while) it ran
+  AWAITING_CONFIRMATION: 'AWAITING_CONFIRMATION',   // Large delta held until a tracking user confirms
+} as const;
+
+// Where a batch was when it failed terminally (failure_context.stage)
+export const FAILURE_STAGE = {
+  KEEPA_FETCH: 'KEEPA_FETCH',
+  DATABASE_INSERT: 'DATABASE_INSERT',
+  PROCESSING: 'PROCESSING',
+  WORKER: 'WORKER',               // Uncaught error in the product-batches task
+  STUCK_PENDING: 'STUCK_PENDING', // Auto-failed by checkExistingBatches
+  STUCK_PROCESSING: 'STUCK_PROCESSING', // Unleased (edge) PROCESSING batch whose run died - checkExistingBatches
 } as const;
 
 export const BATCH_PRIORITY = {
@@ -46,11 +108,108 @@ export const BATCH_PRIORITY = {
   LOW: 'LOW',
 } as const;
 
+// Deferred batches run in the low-usage window (UTC hours, inclusive)
+export const SCHEDULING = {
+  LOW_USAGE_START_HOUR: 2,
+  LOW_USAGE_END_HOUR: 6,
+  MAX_DEFER_MS: 7 * 24 * 60 * 60 * 1000,   // Furthest a user may push a batch out
+} as const;
+
+// Weighted-fair batch claiming across users
+export const CLAIMING = {
+  CANDIDATE_POOL: 200,        // Claimable PENDING batches considered per claim
+  CANDIDATES_PER_USER: 10,    // Oldest batches per user in that pool (fair_claim_candidates)
+  HIGH_PRIORITY_WEIGHT: 2,    // Batches per round for users whose next batch is HIGH
+  LOW_PRIORITY_WEIGHT: 1,
+  USAGE_WINDOW_MS: 60 * 60 * 1000,
+} as const;
+
+// Automatic retry of queued batches after TRANSIENT failures (planBatchRetry)
+export const BATCH_RETRY = {
+  MAX_ATTEMPTS: 5,                   // Total attempts including the first
+  BASE_DELAY_MS: 60 * 1000,          // Doubles per retry
+  MAX_DELAY_MS: 60 * 60 * 1000,
+} as const;
+
+// Leases on PROCESSING batches - only expired leases can be reclaimed
+export const LEASE = {
+  DURATION_MS: 5 * 60 * 1000,
+  RENEW_INTERVAL_MS: 60 * 1000,   // Heartbeat while processProductBatch runs
+  MAX_RECLAIMS: 3,                // Further expiries dead-letter the batch (it keeps killing workers)
+} as const;
+
+// batch_progress events (Supabase Realtime) - clients subscribe per seller for a live progress bar
+export const PROGRESS_EVENT = {
+  BATCH_STARTED: 'BATCH_STARTED',
+  CHUNK_FETCHED: 'CHUNK_FETCHED',
+  PRODUCTS_INSERTED: 'PRODUCTS_INSERTED',
+  BATCH_COMPLETED: 'BATCH_COMPLETED',
+  BATCH_FAILED: 'BATCH_FAILED',
+  BATCH_CANCELLED: 'BATCH_CANCELLED',
+  BATCH_RETRYING: 'BATCH_RETRYING',   // TRANSIENT failure - back to PENDING until its backoff ends, not finished
+} as const;
+
+export const BATCH_PROGRESS = {
+  RETENTION_MS: 7 * 24 * 60 * 60 * 1000,   // batch_progress rows older than this are pruned when a worker exits
+} as const;
+
+// Admission control for new product-batches runs - running workers claim across sellers
+export const ADMISSION = {
+  CLAIM_SIZE: 3,                  // Batches a worker claims per loop (product-batches)
+  BACKLOG_LOOPS_PER_WORKER: 4,    // Claim loops of backlog a running worker absorbs before help is admitted
+  LIVE_RUN_STATUSES: ['QUEUED', 'EXECUTING', 'REATTEMPTING'],   // Runs that will still claim work
+} as const;
+
+// Large new-ASIN deltas are held until a user tracking the seller confirms the token cost
+export const CONFIRMATION = {
+  THRESHOLD: 200,   // New ASINs above this need confirmation
+  EXPIRY_MS: 7 * 24 * 60 * 60 * 1000,   // Held groups nobody confirmed are cancelled after this
+} as const;
+
+// Failed product upserts are split in halves until the rows that break them are isolated
+export const INSERT_BISECT = {
+  MAX_INSERT_CALLS: 40,   // Upsert attempts per batch before remaining groups are just counted failed
+  ROW_ERROR_CLASSES: ['22', '23'],   // SQLSTATE classes a single row can cause (data exception, integrity constraint)
+  POISON_SKIP_MS: 7 * 24 * 60 * 60 * 1000,   // findNewAsins leaves recent poison ASINs out of new batches
+} as const;
+
+// User cancellation of in-flight batches - workers stop before their next Keepa chunk
+export const CANCELLATION = {
+  POLL_INTERVAL_MS: 10 * 1000,    // How often processProductBatch checks cancel_requested_at
+} as const;
+
+// Admin dead-letter endpoint
+export const DEAD_LETTER = {
+  DEFAULT_PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 200,
+  MAX_BULK: 100,                    // Batches per requeue/discard request
+} as const;
+
+// Adaptive batch sizing (chooseBatchSize)
+export const BATCH_SIZING = {
+  MIN_BATCH_SIZE: 10,         // Floor when tokens are scarce - smaller batches aren't worth a claim
+  WORKER_COUNT: 3,            // Concurrent product-batches tasks sharing the bucket
+} as const;
+
+// Queue position / ETA reporting
+export const QUEUE_ETA = {
+  QUEUE_SCAN_LIMIT: 1000,                  // Active batches read when ranking the global queue
+  THROUGHPUT_WINDOW_MS: 60 * 60 * 1000,    // Completed batches that count as "recent"
+  DEFAULT_BATCH_MS: 5000,                  // Per-batch time when nothing completed recently
+} as const;
+
 export const JOB_TYPE = {
   TIME_MACHINE: 'TIME_MACHINE',
   MONITORING: 'MONITORING',
 } as const;
 
+// What a Keepa request was spent on (token_ledger.operation)
+export const TOKEN_OPERATION = {
+  SELLER_LOOKUP: 'SELLER_LOOKUP',
+  SELLER_DISCOVERY: 'SELLER_DISCOVERY',
+  PRODUCT_FETCH: 'PRODUCT_FETCH',
+} as const;
+
 export const BATCH_TYPE = {
   NEW_ASINS: 'NEW_ASINS',
   FULL_REFRESH: 'FULL_REFRESH',
@@ -62,6 +221,24 @@ export const ERROR_TYPES = {
   HARD: 'HARD',
 } as const;
 
+export const KEEPA_ERROR_KIND = {
+  RATE_LIMITED: 'RATE_LIMITED',
+  INVALID_KEY: 'INVALID_KEY',
+  INVALID_ASIN: 'INVALID_ASIN',
+  INVALID_REQUEST: 'INVALID_REQUEST',
+  PAYMENT_REQUIRED: 'PAYMENT_REQUIRED',
+  SERVER_ERROR: 'SERVER_ERROR',
+  NETWORK: 'NETWORK',
+  CANCELLED: 'CANCELLED',   // Request dropped locally because the batch was cancelled
+  UNEXPECTED: 'UNEXPECTED', // Bug or malformed data in our own Keepa handling - retrying won't help
+} as const;
+
+export const TRANSIENT_KEEPA_ERRORS: readonly string[] = [
+  KEEPA_ERROR_KIND.RATE_LIMITED,
+  KEEPA_ERROR_KIND.SERVER_ERROR,
+  KEEPA_ERROR_KIND.NETWORK,
+];
+
 export const ROUTING_DECISIONS = {
   EDGE: 'edge',
   QUEUE: 'queue',
@@ -71,6 +248,26 @@ export const ROUTING_DECISIONS = {
 export const SELLER_ID_PATTERN = /^[A-Z0-9]{13,15}$/;
 export const ASIN_PATTERN = /^[A-Z0-9]{10}$/;
 
+export const HISTORY = {
+  WINDOW_MS: 365 * 24 * 60 * 60 * 1000,
+  INSERT_CHUNK_SIZE: 1000,
+  KEEPA_CSV_BUY_BOX: 18,
+} as const;
+
+// Keepa offer.condition codes
+export const OFFER_CONDITIONS: Record<number, string> = {
+  1: 'NEW',
+  2: 'USED_LIKE_NEW',
+  3: 'USED_VERY_GOOD',
+  4: 'USED_GOOD',
+  5: 'USED_ACCEPTABLE',
+  6: 'REFURBISHED',
+  7: 'COLLECTIBLE_LIKE_NEW',
+  8: 'COLLECTIBLE_VERY_GOOD',
+  9: 'COLLECTIBLE_GOOD',
+  10: 'COLLECTIBLE_ACCEPTABLE',
+} as const;
+
 export const CACHE_DURATION = {
   SELLER: 24 * 60 * 60 * 1000,
   PRODUCT: 7 * 24 * 60 * 60 * 1000,
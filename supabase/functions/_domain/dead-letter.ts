@@ -0,0 +1,56 @@
+import { FAILURE_STAGE, LIMITS } from './constants.ts';
+import { splitIntoBatches } from './batching.ts';
+
+export type FailureStage = typeof FAILURE_STAGE[keyof typeof FAILURE_STAGE];
+
+// Stored in product_batches.failure_context when a batch is dead-lettered
+export interface FailureContext {
+  stage: FailureStage;
+  errorType: 'TRANSIENT' | 'HARD';
+  errorKind?: string;          // KeepaErrorKind when the Keepa layer failed
+  statusCode?: number;
+  message: string;
+  attempts: number;            // Attempts made, including retries
+  workerId?: string | null;
+  memoryStats?: Record<string, unknown>;
+  failedAt: string;
+}
+
+export function buildFailureContext(
+  stage: FailureStage,
+  errorType: 'TRANSIENT' | 'HARD',
+  message: string,
+  details: {
+    errorKind?: string;
+    statusCode?: number;
+    retryCount?: number;
+    workerId?: string | null;
+    memoryStats?: Record<string, unknown>;
+  } = {},
+  now: Date = new Date()
+): FailureContext {
+  return {
+    stage,
+    errorType,
+    errorKind: details.errorKind,
+    statusCode: details.statusCode,
+    message,
+    attempts: (details.retryCount ?? 0) + 1,
+    workerId: details.workerId ?? null,
+    memoryStats: details.memoryStats,
+    failedAt: now.toISOString()
+  };
+}
+
+/**
+ * ASIN groups for requeueing a dead letter.
+ * Without resplitSize the batch goes back whole; with it, the ASINs are re-split so a
+ * poison ASIN or oversized batch can't take the whole group down again.
+ */
+export function planRequeue(asins: string[], resplitSize?: number): string[][] {
+  if (!resplitSize || resplitSize >= asins.length) {
+    return [asins];
+  }
+  
+  return splitIntoBatches(asins, Math.max(1, Math.min(resplitSize, LIMITS.MAX_BATCH_SIZE)));
+}
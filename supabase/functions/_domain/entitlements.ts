@@ -0,0 +1,137 @@
+import { PLAN_ENTITLEMENTS, PLAN } from './constants.ts';
+import { calculateTokensNeeded } from './tokens.ts';
+
+export interface PlanEntitlements {
+  planType: string;
+  label: string;
+  maxProductsPerSeller: number;
+  maxTrackedSellers: number;
+  refreshIntervalMs: number;
+  monitoringIntervalMs: number;
+  monthlyTokenBudget: number;
+}
+
+export interface EntitlementCheck {
+  allowed: boolean;
+  planType: string;
+  limit: number;
+  error?: string;
+  suggestion?: string;      // Upgrade hint for the client; absent on the top plan
+  upgradePlan?: string;
+}
+
+const PLAN_ORDER = Object.keys(PLAN_ENTITLEMENTS);
+
+// Entitlements for a subscriptions.plan_type; null means no active subscription
+export function getPlanEntitlements(planType: string | null | undefined): PlanEntitlements {
+  const resolved = planType === null || planType === undefined
+    ? PLAN.NO_SUBSCRIPTION
+    : PLAN_ENTITLEMENTS[planType] ? planType : PLAN.DEFAULT;
+  return { planType: resolved, ...PLAN_ENTITLEMENTS[resolved] };
+}
+
+// Cheapest plan above `planType` that satisfies `fits`, for upgrade messages
+export function getUpgradePlan(
+  planType: string,
+  fits: (plan: PlanEntitlements) => boolean
+): PlanEntitlements | null {
+  for (const candidate of PLAN_ORDER.slice(PLAN_ORDER.indexOf(planType) + 1)) {
+    const plan = getPlanEntitlements(candidate);
+    if (fits(plan)) {
+      return plan;
+    }
+  }
+  
+  return null;
+}
+
+// The most generous plan among a seller's trackers decides how often it is monitored
+export function getMostGenerousPlan(planTypes: Array<string | null>): PlanEntitlements {
+  return planTypes
+    .map(getPlanEntitlements)
+    .reduce((best, plan) => plan.monitoringIntervalMs < best.monitoringIntervalMs ? plan : best, getPlanEntitlements(null));
+}
+
+export function isRefreshDue(lastCheckedAt: string | null | undefined, intervalMs: number, now: number = Date.now()): boolean {
+  if (!lastCheckedAt) {
+    return true;
+  }
+  
+  return now - new Date(lastCheckedAt).getTime() >= intervalMs;
+}
+
+function denied(
+  plan: PlanEntitlements,
+  limit: number,
+  error: string,
+  fits: (plan: PlanEntitlements) => boolean,
+  describe: (plan: PlanEntitlements) => string
+): EntitlementCheck {
+  const upgrade = getUpgradePlan(plan.planType, fits);
+  return {
+    allowed: false,
+    planType: plan.planType,
+    limit,
+    error,
+    suggestion: upgrade ? `Upgrade to ${upgrade.label} for ${describe(upgrade)}` : undefined,
+    upgradePlan: upgrade?.planType
+  };
+}
+
+export function checkProductLimit(productCount: number, plan: PlanEntitlements): EntitlementCheck {
+  const limit = plan.maxProductsPerSeller;
+  if (productCount <= limit) {
+    return { allowed: true, planType: plan.planType, limit };
+  }
+  
+  return denied(
+    plan,
+    limit,
+    `Seller has ${productCount.toLocaleString()} products, which exceeds the ${limit.toLocaleString()} product limit of the ${plan.label} plan`,
+    upgrade => productCount <= upgrade.maxProductsPerSeller,
+    upgrade => `up to ${upgrade.maxProductsPerSeller.toLocaleString()} products per seller`
+  );
+}
+
+// alreadyTracked: sellers the user already tracks never count against the cap
+export function checkTrackedSellerLimit(
+  trackedCount: number,
+  alreadyTracked: boolean,
+  plan: PlanEntitlements
+): EntitlementCheck {
+  const limit = plan.maxTrackedSellers;
+  if (alreadyTracked || trackedCount < limit) {
+    return { allowed: true, planType: plan.planType, limit };
+  }
+  
+  return denied(
+    plan,
+    limit,
+    `You are tracking ${trackedCount} of ${limit} sellers allowed on the ${plan.label} plan`,
+    upgrade => trackedCount < upgrade.maxTrackedSellers,
+    upgrade => `up to ${upgrade.maxTrackedSellers.toLocaleString()} tracked sellers`
+  );
+}
+
+// productCount is what the next operation will fetch (0 = just check the budget isn't spent)
+export function checkTokenBudget(
+  monthlyUsage: number,
+  productCount: number,
+  plan: PlanEntitlements
+): EntitlementCheck {
+  const limit = plan.monthlyTokenBudget;
+  const needed = calculateTokensNeeded(productCount);
+  if (monthlyUsage + needed <= limit && monthlyUsage < limit) {
+    return { allowed: true, planType: plan.planType, limit };
+  }
+  
+  return denied(
+    plan,
+    limit,
+    needed > 0
+      ? `This needs ${needed.toLocaleString()} Keepa tokens but only ${Math.max(0, limit - monthlyUsage).toLocaleString()} of your ${plan.label} plan's ${limit.toLocaleString()} monthly tokens remain`
+      : `Your ${plan.label} plan's ${limit.toLocaleString()} monthly Keepa tokens are used up`,
+    upgrade => monthlyUsage + needed <= upgrade.monthlyTokenBudget,
+    upgrade => `${upgrade.monthlyTokenBudget.toLocaleString()} tokens per month`
+  );
+}
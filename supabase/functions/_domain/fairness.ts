@@ -0,0 +1,97 @@
+import { BATCH_PRIORITY, CLAIMING } from './constants.ts';
+import { shouldThrottleUser } from './routing.ts';
+
+export interface ClaimCandidate {
+  id: string;
+  user_id?: string | null;
+  seller_id: string;
+  priority?: string | null;
+  created_at?: string;
+}
+
+export interface UserLoad {
+  inFlight: number;      // Batches currently PROCESSING for this user
+  recentUsage: number;   // Tokens consumed over CLAIMING.USAGE_WINDOW_MS
+}
+
+// Batches without a user (monitoring refreshes) share one lane
+const SYSTEM_LANE = 'system';
+
+/**
+ * Pick up to `limit` batches round-robin across users instead of oldest-first.
+ * - Users with fewer in-flight batches and less recent usage go first
+ * - A user whose next batch is HIGH gets CLAIMING.HIGH_PRIORITY_WEIGHT picks per round
+ * - Throttled users (shouldThrottleUser) only get capacity nobody else wants, one batch per round
+ * - preferredSellerId keeps the worker on the seller it was triggered for within each user's lane
+ */
+export function selectFairBatches<T extends ClaimCandidate>(
+  candidates: T[],
+  limit: number,
+  options: {
+    userLoad?: Map<string, UserLoad>;
+    systemTokenPercent?: number;
+    preferredSellerId?: string;
+  } = {}
+): T[] {
+  if (limit <= 0 || candidates.length === 0) {
+    return [];
+  }
+  
+  const { userLoad = new Map(), systemTokenPercent = 100, preferredSellerId } = options;
+  
+  const lanes = new Map<string, T[]>();
+  for (const candidate of candidates) {
+    const lane = candidate.user_id || SYSTEM_LANE;
+    if (!lanes.has(lane)) {
+      lanes.set(lane, []);
+    }
+    lanes.get(lane)!.push(candidate);
+  }
+  
+  const rank = (batch: T): number => (batch.priority === BATCH_PRIORITY.HIGH ? 0 : 2) + (batch.seller_id === preferredSellerId ? 0 : 1);
+  for (const queue of lanes.values()) {
+    queue.sort((a, b) => rank(a) - rank(b) || (a.created_at || '').localeCompare(b.created_at || ''));
+  }
+  
+  const loadOf = (lane: string): UserLoad => userLoad.get(lane) || { inFlight: 0, recentUsage: 0 };
+  const users = [...lanes.keys()].map(lane => ({
+    lane,
+    throttled: lane !== SYSTEM_LANE && shouldThrottleUser(loadOf(lane).recentUsage, systemTokenPercent),
+    load: loadOf(lane),
+    oldest: lanes.get(lane)!.map(batch => batch.created_at || '').sort()[0]
+  }));
+  
+  users.sort((a, b) =>
+    a.load.inFlight - b.load.inFlight ||
+    a.load.recentUsage - b.load.recentUsage ||
+    a.oldest.localeCompare(b.oldest)
+  );
+  
+  const selected: T[] = [];
+  const takeRounds = (lanesInOrder: string[], weightFor: (lane: string) => number): void => {
+    let progressed = true;
+    while (selected.length < limit && progressed) {
+      progressed = false;
+      for (const lane of lanesInOrder) {
+        const queue = lanes.get(lane)!;
+        let picks = weightFor(lane);
+        while (picks > 0 && queue.length > 0 && selected.length < limit) {
+          selected.push(queue.shift()!);
+          picks--;
+          progressed = true;
+        }
+      }
+    }
+  };
+  
+  takeRounds(
+    users.filter(u => !u.throttled).map(u => u.lane),
+    lane => lanes.get(lane)![0]?.priority === BATCH_PRIORITY.HIGH ? CLAIMING.HIGH_PRIORITY_WEIGHT : CLAIMING.LOW_PRIORITY_WEIGHT
+  );
+  takeRounds(
+    users.filter(u => u.throttled).map(u => u.lane),
+    () => 1
+  );
+  
+  return selected;
+}
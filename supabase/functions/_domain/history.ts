@@ -0,0 +1,78 @@
+import { HISTORY } from './constants.ts';
+
+export interface HistoryPoint {
+  recordedAt: string;
+  value: number;
+}
+
+export interface ProductHistorySeries {
+  storefrontPrice: HistoryPoint[];
+  buyBoxPrice: HistoryPoint[];
+  salesRank: HistoryPoint[];
+  stock: HistoryPoint[];
+}
+
+export type HistoryMetric = 'storefront_price' | 'buy_box_price' | 'sales_rank' | 'stock';
+
+export const HISTORY_METRICS: Record<keyof ProductHistorySeries, HistoryMetric> = {
+  storefrontPrice: 'storefront_price',
+  buyBoxPrice: 'buy_box_price',
+  salesRank: 'sales_rank',
+  stock: 'stock',
+};
+
+/**
+ * Parse a Keepa history CSV ([time, value, time, value, ...] or
+ * [time, price, shipping, ...] with stride 3) into points.
+ * Keepa uses -1 for "no data / no offer" - those points are dropped.
+ */
+export function parseKeepaSeries(
+  csv: number[] | null | undefined,
+  options: { stride?: number; divisor?: number; windowMs?: number; now?: number } = {}
+): HistoryPoint[] {
+  const {
+    stride = 2,
+    divisor = 1,
+    windowMs = HISTORY.WINDOW_MS,
+    now = Date.now()
+  } = options;
+  
+  if (!Array.isArray(csv) || csv.length < 2) {
+    return [];
+  }
+  
+  const cutoff = now - windowMs;
+  const points: HistoryPoint[] = [];
+  
+  for (let i = 0; i + 1 < csv.length; i += stride) {
+    const keepaTime = csv[i];
+    const value = csv[i + 1];
+    
+    if (value === null || value === undefined || value < 0) {
+      continue;
+    }
+    
+    const timestamp = (keepaTime + 21564000) * 60000;
+    if (timestamp < cutoff) {
+      continue;
+    }
+    
+    points.push({
+      recordedAt: new Date(timestamp).toISOString(),
+      value: value / divisor
+    });
+  }
+  
+  return points;
+}
+
+export function countHistoryPoints(series: ProductHistorySeries | undefined): number {
+  if (!series) {
+    return 0;
+  }
+  
+  return series.storefrontPrice.length +
+    series.buyBoxPrice.length +
+    series.salesRank.length +
+    series.stock.length;
+}
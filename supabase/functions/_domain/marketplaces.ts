@@ -0,0 +1,35 @@
+import { MARKETPLACES, LIMITS } from './constants.ts';
+
+export interface Marketplace {
+  domain: number;       // Keepa domain id
+  host: string;
+  currency: string;     // ISO 4217
+  priceDivisor: number;
+  locale: string;
+  timezone: string;     // IANA zone used for marketplace-local dates
+}
+
+// Registry entry for a Keepa domain; unknown domains fall back to DEFAULT_DOMAIN
+export function getMarketplace(domain: number): Marketplace {
+  const resolved = MARKETPLACES[domain] ? domain : LIMITS.DEFAULT_DOMAIN;
+  return { domain: resolved, ...MARKETPLACES[resolved] };
+}
+
+export function buildProductUrl(asin: string, domain: number): string {
+  return `https://www.${getMarketplace(domain).host}/dp/${asin}`;
+}
+
+// Keepa integer price (smallest currency unit, -1 = unavailable) to an amount in the marketplace currency
+export function toMarketplacePrice(keepaPrice: number | null | undefined, domain: number): number | null {
+  if (keepaPrice === null || keepaPrice === undefined || keepaPrice < 0) {
+    return null;
+  }
+  
+  return keepaPrice / getMarketplace(domain).priceDivisor;
+}
+
+// Public subset attached to API responses so clients can format prices and dates
+export function getMarketplaceInfo(domain: number): { domain: number; host: string; currency: string; locale: string; timezone: string } {
+  const { host, currency, locale, timezone } = getMarketplace(domain);
+  return { domain, host, currency, locale, timezone };
+}
@@ -0,0 +1,98 @@
+import { OFFER_CONDITIONS, LIMITS } from './constants.ts';
+import { toMarketplacePrice } from './marketplaces.ts';
+
+export interface ProductOffer {
+  offerId: number;
+  sellerId: string;
+  price: number | null;       // Latest offer price in marketplace currency, shipping excluded
+  shipping: number | null;
+  condition: string;
+  isFBA: boolean;
+  isPrime: boolean;
+  isAmazon: boolean;
+  isBuyBoxWinner: boolean;
+  lastSeenAt: string | null;
+}
+
+export interface OfferSummary {
+  offerCount: number;
+  fbaOfferCount: number;
+  fbaCompetitorCount: number;      // FBA offers from sellers other than the tracked one
+  buyBoxSellerId: string | null;
+  hasBuyBox: boolean;              // Tracked seller currently holds the buy box
+}
+
+/**
+ * Current buy box seller: stats.buyBoxSellerId when stats=1 was requested,
+ * otherwise the last entry of buyBoxSellerIdHistory ([time, sellerId, ...]).
+ * Keepa uses '-1' / '-2' for "no buy box" / "unknown".
+ */
+export function getBuyBoxSellerId(product: any): string | null {
+  let sellerId = product?.stats?.buyBoxSellerId;
+  
+  if (!sellerId) {
+    const history = product?.buyBoxSellerIdHistory;
+    if (Array.isArray(history) && history.length >= 2) {
+      sellerId = history[history.length - 1];
+    }
+  }
+  
+  if (!sellerId || typeof sellerId !== 'string' || sellerId.startsWith('-')) {
+    return null;
+  }
+  
+  return sellerId;
+}
+
+/**
+ * Flatten Keepa's offers array into live offers.
+ * With only-live-offers=0 Keepa also returns offers that have since gone away;
+ * liveOffersOrder lists the indices of the ones still live.
+ */
+export function parseKeepaOffers(product: any, domain: number = LIMITS.DEFAULT_DOMAIN): ProductOffer[] {
+  const offers: any[] = Array.isArray(product?.offers) ? product.offers : [];
+  const liveOrder: number[] | undefined = Array.isArray(product?.liveOffersOrder) ? product.liveOffersOrder : undefined;
+  const liveOffers = liveOrder
+    ? liveOrder.map(index => offers[index]).filter(Boolean)
+    : offers;
+  const buyBoxSellerId = getBuyBoxSellerId(product);
+  
+  return liveOffers.map((offer: any, index: number) => {
+    // offerCSV is [time, price, shipping, time, price, shipping, ...] - latest triple is current
+    const offerCSV: number[] = Array.isArray(offer.offerCSV) ? offer.offerCSV : [];
+    const latest = offerCSV.length >= 3 ? offerCSV.length - 3 : -1;
+    const price = latest >= 0 ? toMarketplacePrice(offerCSV[latest + 1], domain) : null;
+    const shipping = latest >= 0 ? toMarketplacePrice(offerCSV[latest + 2], domain) : null;
+    
+    return {
+      offerId: offer.offerId ?? index,
+      sellerId: offer.sellerId,
+      price,
+      shipping,
+      condition: OFFER_CONDITIONS[offer.condition] ?? OFFER_CONDITIONS[1],
+      isFBA: offer.isFBA ?? offer.isPrime ?? false,
+      isPrime: offer.isPrime ?? false,
+      isAmazon: offer.isAmazon ?? false,
+      isBuyBoxWinner: buyBoxSellerId !== null && offer.sellerId === buyBoxSellerId,
+      lastSeenAt: typeof offer.lastSeen === 'number' && offer.lastSeen > 0
+        ? new Date((offer.lastSeen + 21564000) * 60000).toISOString()
+        : null
+    };
+  });
+}
+
+export function summarizeOffers(
+  offers: ProductOffer[],
+  keepaSellerID: string,
+  buyBoxSellerId: string | null
+): OfferSummary {
+  const fbaOffers = offers.filter(offer => offer.isFBA);
+  
+  return {
+    offerCount: offers.length,
+    fbaOfferCount: fbaOffers.length,
+    fbaCompetitorCount: fbaOffers.filter(offer => offer.sellerId !== keepaSellerID).length,
+    buyBoxSellerId,
+    hasBuyBox: buyBoxSellerId !== null && buyBoxSellerId === keepaSellerID
+  };
+}
@@ -0,0 +1,46 @@
+import { PROGRESS_EVENT } from './constants.ts';
+import { getBatchProgress } from './batching.ts';
+
+export type ProgressEventType = typeof PROGRESS_EVENT[keyof typeof PROGRESS_EVENT];
+
+export interface ProgressContext {
+  batchId: string;
+  sellerId: string;
+  userId?: string | null;
+}
+
+export interface BatchProgressEvent {
+  batchId: string;
+  sellerId: string;
+  userId: string | null;
+  event: ProgressEventType;
+  processed: number;    // ASINs fetched (CHUNK_FETCHED) or products inserted (everything else)
+  failed: number;
+  total: number;        // ASINs in the batch
+  progress: number;     // 0-100
+  message: string | null;
+}
+
+export function buildProgressEvent(
+  context: ProgressContext,
+  event: ProgressEventType,
+  counts: { processed: number; total: number; failed?: number },
+  message?: string
+): BatchProgressEvent {
+  // Finished batches read 100% even when some ASINs failed or were skipped
+  const finished = event === PROGRESS_EVENT.BATCH_COMPLETED
+    || event === PROGRESS_EVENT.BATCH_FAILED
+    || event === PROGRESS_EVENT.BATCH_CANCELLED;
+
+  return {
+    batchId: context.batchId,
+    sellerId: context.sellerId,
+    userId: context.userId ?? null,
+    event,
+    processed: counts.processed,
+    failed: counts.failed ?? 0,
+    total: counts.total,
+    progress: finished ? 100 : getBatchProgress(counts.processed, counts.total),
+    message: message ?? null
+  };
+}
@@ -0,0 +1,122 @@
+import { KEEPA, QUEUE_ETA } from './constants.ts';
+import { estimateQueueDelay } from './routing.ts';
+import { estimateProcessingTime, calculateTokensNeeded } from './tokens.ts';
+import { selectFairBatches, type UserLoad } from './fairness.ts';
+
+export interface QueuedBatch {
+  id: string;
+  seller_id: string;
+  product_count: number;
+  status: string;
+  created_at: string;
+  user_id?: string | null;
+  priority?: string | null;
+}
+
+export interface FinishedBatch {
+  product_count: number;
+  failed_asins?: string[] | null;
+  started_at?: string | null;
+  completed_at: string;
+}
+
+export interface Throughput {
+  productsPerMinute: number;   // Products finished per minute across all workers
+  avgBatchMs: number;          // Mean started_at -> completed_at of recent batches
+  sampleSize: number;
+}
+
+export interface EtaEstimate {
+  etaMs: number;
+  queueDelayMs: number;        // estimateQueueDelay over the batches ahead
+  tokenWaitMs: number;         // Token regen needed for everything ahead plus ours
+  throughputMs: number;        // Products ahead plus ours at observed throughput
+  basis: 'queue' | 'tokens' | 'throughput';
+}
+
+// Products a finished batch actually stored (PARTIAL batches list their failed ASINs)
+export function getProcessedProductCount(batch: FinishedBatch): number {
+  return Math.max(0, batch.product_count - (batch.failed_asins?.length ?? 0));
+}
+
+/**
+ * Observed drain rate from recently finished batches.
+ * Throughput is products over the window; batch time is the mean wall time per batch.
+ */
+export function calculateThroughput(
+  finished: FinishedBatch[],
+  windowMs: number = QUEUE_ETA.THROUGHPUT_WINDOW_MS
+): Throughput {
+  const timed = finished.filter(batch => batch.started_at);
+  const totalBatchMs = timed.reduce(
+    (sum, batch) => sum + Math.max(0, new Date(batch.completed_at).getTime() - new Date(batch.started_at!).getTime()),
+    0
+  );
+  const products = finished.reduce((sum, batch) => sum + getProcessedProductCount(batch), 0);
+
+  return {
+    productsPerMinute: windowMs > 0 ? products / (windowMs / 60000) : 0,
+    avgBatchMs: timed.length > 0 ? totalBatchMs / timed.length : QUEUE_ETA.DEFAULT_BATCH_MS,
+    sampleSize: finished.length
+  };
+}
+
+/**
+ * Approximate 1-based position of each batch in the global queue.
+ * PROCESSING batches (oldest first) rank ahead of PENDING ones, which follow the order
+ * selectFairBatches would claim them in right now. Later claims see different user loads,
+ * so positions further back are an estimate rather than a promise.
+ */
+export function getQueuePositions(
+  queue: QueuedBatch[],
+  options: { userLoad?: Map<string, UserLoad>; systemTokenPercent?: number } = {}
+): Map<string, number> {
+  const byAge = (a: QueuedBatch, b: QueuedBatch) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  const processing = queue.filter(batch => batch.status === 'PROCESSING').sort(byAge);
+  const pending = queue.filter(batch => batch.status !== 'PROCESSING');
+
+  // Without ledger usage to hand, users are ordered by what they already have in flight
+  const userLoad = options.userLoad ?? new Map<string, UserLoad>();
+  if (!options.userLoad) {
+    for (const batch of processing) {
+      const lane = batch.user_id || 'system';
+      const load = userLoad.get(lane) ?? { inFlight: 0, recentUsage: 0 };
+      userLoad.set(lane, { ...load, inFlight: load.inFlight + 1 });
+    }
+  }
+
+  const claimOrder = selectFairBatches(pending, pending.length, {
+    userLoad,
+    systemTokenPercent: options.systemTokenPercent
+  });
+
+  return new Map([...processing, ...claimOrder].map((batch, index) => [batch.id, index + 1]));
+}
+
+/**
+ * ETA until the last of `productsRemaining` is done, given the work ahead of it.
+ * Each signal bounds the wait from a different side, so the slowest one wins:
+ * worker turnover (queue delay), Keepa token regen, and observed throughput.
+ */
+export function estimateEta(
+  batchesAhead: number,
+  productsAhead: number,
+  productsRemaining: number,
+  availableTokens: number,
+  throughput: Throughput
+): EtaEstimate {
+  const productsToDrain = productsAhead + productsRemaining;
+
+  const queueDelayMs = estimateQueueDelay(batchesAhead + 1, throughput.avgBatchMs);
+  const tokenWaitMs = estimateProcessingTime(calculateTokensNeeded(productsToDrain), availableTokens) * KEEPA.REFILL_INTERVAL_MS;
+  const throughputMs = throughput.productsPerMinute > 0
+    ? Math.ceil((productsToDrain / throughput.productsPerMinute) * 60000)
+    : 0;
+
+  const etaMs = Math.max(queueDelayMs, tokenWaitMs, throughputMs);
+  const basis = etaMs === tokenWaitMs && tokenWaitMs > 0
+    ? 'tokens'
+    : etaMs === throughputMs && throughputMs > 0 ? 'throughput' : 'queue';
+
+  return { etaMs, queueDelayMs, tokenWaitMs, throughputMs, basis };
+}
@@ -1,15 +1,18 @@
-import { LIMITS } from './constants.ts';
+import { LIMITS, SCHEDULING } from './constants.ts';
 
 export interface RoutingDecision {
   route: 'edge' | 'queue' | 'skip';
   reason: string;
   threshold: number;
+  tokenPercent?: number;   // Keepa bucket fill the decision was made on
+  recentUsage?: number;    // User's tokens over the last hour
 }
 
 export function shouldUseQueue(
   productCount: number,
   tokenPercent?: number,
-  recentUsage?: number
+  recentUsage?: number,
+  maxProducts: number = LIMITS.MAX_NEW_PRODUCTS   // Caller's plan limit (getPlanEntitlements)
 ): RoutingDecision {
   if (productCount <= 0) {
     return {
@@ -19,11 +22,11 @@ export function shouldUseQueue(
     };
   }
   
-  if (productCount > LIMITS.MAX_NEW_PRODUCTS) {
+  if (productCount > maxProducts) {
     return {
       route: 'skip',
-      reason: `Exceeds maximum limit of ${LIMITS.MAX_NEW_PRODUCTS} products`,
-      threshold: LIMITS.MAX_NEW_PRODUCTS
+      reason: `Exceeds maximum limit of ${maxProducts} products`,
+      threshold: maxProducts
     };
   }
   
@@ -35,7 +38,8 @@ export function shouldUseQueue(
       dynamicThreshold = 20;
       reasons.push('Low token availability (<30%)');
     } else if (tokenPercent > 80) {
-      dynamicThreshold = 75;
+      // Never past what processProductBatch accepts from the edge
+      dynamicThreshold = Math.min(75, LIMITS.EDGE_FUNCTION_LIMIT);
       reasons.push('High token availability (>80%)');
     }
   }
@@ -51,14 +55,18 @@ export function shouldUseQueue(
       reason: reasons.length > 0 
         ? `Queue processing: ${reasons.join(', ')}` 
         : `Product count (${productCount}) exceeds threshold (${dynamicThreshold})`,
-      threshold: dynamicThreshold
+      threshold: dynamicThreshold,
+      tokenPercent,
+      recentUsage
     };
   }
   
   return {
     route: 'edge',
     reason: `Edge processing: Product count (${productCount}) within threshold (${dynamicThreshold})`,
-    threshold: dynamicThreshold
+    threshold: dynamicThreshold,
+    tokenPercent,
+    recentUsage
   };
 }
 
@@ -180,4 +188,33 @@ export function getOptimalProcessingTime(): { hour: number; reason: string } {
     hour: hour,
     reason: 'Normal processing hours'
   };
-}
\ No newline at end of file
+}
+
+/**
+ * When deferred LOW-priority work should start, or null to run now.
+ * Defers only when shouldDeferProcessing says so, and only until the next
+ * low-usage window (SCHEDULING hours, UTC) - inside the window work runs immediately.
+ */
+export function calculateScheduledFor(
+  priority: 'HIGH' | 'LOW',
+  tokenPercent: number,
+  queueLength: number,
+  now: Date = new Date()
+): Date | null {
+  if (priority === 'HIGH' || !shouldDeferProcessing(tokenPercent, queueLength)) {
+    return null;
+  }
+  
+  const hour = now.getUTCHours();
+  if (hour >= SCHEDULING.LOW_USAGE_START_HOUR && hour <= SCHEDULING.LOW_USAGE_END_HOUR) {
+    return null;
+  }
+  
+  const scheduled = new Date(now);
+  scheduled.setUTCHours(SCHEDULING.LOW_USAGE_START_HOUR, 0, 0, 0);
+  if (scheduled <= now) {
+    scheduled.setUTCDate(scheduled.getUTCDate() + 1);
+  }
+  
+  return scheduled;
+}
@@ -73,4 +73,42 @@ export function getTokenUsageStats(usedTokens: number, duration: number): {
     efficiency,
     sustainableRate
   };
+}
+
+export function projectTokens(
+  tokensLeft: number,
+  observedAt: number,
+  refillIn: number,
+  refillRate: number = KEEPA.REGEN_RATE,
+  now: number = Date.now()
+): number {
+  const firstRefill = observedAt + refillIn;
+  
+  if (now < firstRefill) {
+    return tokensLeft;
+  }
+  
+  const refills = Math.floor((now - firstRefill) / KEEPA.REFILL_INTERVAL_MS) + 1;
+  return Math.min(KEEPA.BUCKET_SIZE, tokensLeft + refills * refillRate);
+}
+
+export function calculateTokenWaitMs(
+  deficit: number,
+  observedAt: number,
+  refillIn: number,
+  refillRate: number = KEEPA.REGEN_RATE,
+  now: number = Date.now()
+): number {
+  if (deficit <= 0) {
+    return 0;
+  }
+  
+  const firstRefill = observedAt + refillIn;
+  const refillsPassed = now < firstRefill
+    ? 0
+    : Math.floor((now - firstRefill) / KEEPA.REFILL_INTERVAL_MS) + 1;
+  const nextRefill = firstRefill + refillsPassed * KEEPA.REFILL_INTERVAL_MS;
+  const refillsNeeded = Math.ceil(deficit / Math.max(refillRate, 1));
+  
+  return (nextRefill - now) + (refillsNeeded - 1) * KEEPA.REFILL_INTERVAL_MS;
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { SELLER_ID_PATTERN, ASIN_PATTERN, DOMAINS, LIMITS } from './constants.ts';
+import { SELLER_ID_PATTERN, ASIN_PATTERN, DOMAINS, LIMITS, SCHEDULING, HISTORY } from './constants.ts';
 
 export function validateSellerId(sellerId: string): { valid: boolean; error?: string } {
   if (!sellerId) {
@@ -108,4 +108,32 @@ export function validateJobType(jobType: string): boolean {
 
 export function validateBatchType(batchType: string): boolean {
   return ['NEW_ASINS', 'FULL_REFRESH', 'INCREMENTAL'].includes(batchType);
-}
\ No newline at end of file
+}
+
+// History lookback: whole days, at most the retained HISTORY.WINDOW_MS
+export function validateHistoryDays(days: number): { valid: boolean; error?: string } {
+  const maxDays = Math.floor(HISTORY.WINDOW_MS / (24 * 60 * 60 * 1000));
+  
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > maxDays) {
+    return { valid: false, error: `days must be a whole number between 1 and ${maxDays}` };
+  }
+  
+  return { valid: true };
+}
+
+export function validateScheduledFor(
+  scheduledFor: string,
+  now: number = Date.now()
+): { valid: boolean; error?: string } {
+  const time = new Date(scheduledFor).getTime();
+  
+  if (isNaN(time)) {
+    return { valid: false, error: 'scheduledFor must be an ISO timestamp or "now"' };
+  }
+  
+  if (time > now + SCHEDULING.MAX_DEFER_MS) {
+    return { valid: false, error: 'scheduledFor cannot be more than 7 days out' };
+  }
+  
+  return { valid: true };
+}
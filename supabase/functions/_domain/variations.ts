@@ -0,0 +1,38 @@
+export interface VariationAttribute {
+  dimension: string;   // e.g. "Color", "Size"
+  value: string;
+}
+
+/**
+ * Parent ASIN of a variation child. Keepa sets parentAsin on children only;
+ * standalone listings and the parent itself return null.
+ */
+export function getParentAsin(product: any): string | null {
+  const parentAsin = product?.parentAsin;
+  
+  if (!parentAsin || typeof parentAsin !== 'string' || parentAsin === product.asin) {
+    return null;
+  }
+  
+  return parentAsin;
+}
+
+/**
+ * This listing's own variation attributes, taken from the variations array
+ * ([{ asin, attributes: [{ dimension, value }] }, ...]) Keepa returns on each family member.
+ */
+export function getVariationAttributes(product: any): VariationAttribute[] {
+  const variations: any[] = Array.isArray(product?.variations) ? product.variations : [];
+  const own = variations.find((variation: any) => variation?.asin === product.asin);
+  
+  if (!own || !Array.isArray(own.attributes)) {
+    return [];
+  }
+  
+  return own.attributes
+    .filter((attribute: any) => attribute?.dimension && attribute?.value)
+    .map((attribute: any) => ({
+      dimension: String(attribute.dimension),
+      value: String(attribute.value)
+    }));
+}
@@ -11,7 +11,7 @@ export function extractToken(authHeader: string | undefined): string | null {
   return parts[1];
 }
 
-export function decodeJWT(token: string): { user: { id: string } | null; error: any } {
+export function decodeJWT(token: string): { user: { id: string; role?: string } | null; error: any } {
   try {
     const parts = token.split('.');
     if (parts.length !== 3) {
@@ -21,7 +21,7 @@ export function decodeJWT(token: string): { user: { id: string } | null; error:
     const payload = JSON.parse(atob(parts[1]));
     
     return { 
-      user: { id: payload.sub }, 
+      user: { id: payload.sub, role: payload.app_metadata?.role }, 
       error: null 
     };
   } catch (error: any) {
@@ -32,12 +32,12 @@ export function decodeJWT(token: string): { user: { id: string } | null; error:
   }
 }
 
-export function validateAuthToken(authHeader: string | undefined): { userId: string | null; error: any } {
+function decodeAuthHeader(authHeader: string | undefined): { user: { id: string; role?: string } | null; error: any } {
   const token = extractToken(authHeader);
   
   if (!token) {
     return { 
-      userId: null, 
+      user: null, 
       error: { message: 'No authorization token provided' } 
     };
   }
@@ -46,10 +46,30 @@ export function validateAuthToken(authHeader: string | undefined): { userId: str
   
   if (error || !user) {
     return { 
-      userId: null, 
+      user: null, 
       error: error || { message: 'Failed to decode token' } 
     };
   }
   
+  return { user, error: null };
+}
+
+export function validateAuthToken(authHeader: string | undefined): { userId: string | null; error: any } {
+  const { user, error } = decodeAuthHeader(authHeader);
+  return { userId: user?.id ?? null, error };
+}
+
+// Admins carry app_metadata.role = 'admin' (only settable with the service role key)
+export function validateAdminToken(authHeader: string | undefined): { userId: string | null; error: any } {
+  const { user, error } = decodeAuthHeader(authHeader);
+  
+  if (error || !user) {
+    return { userId: null, error };
+  }
+  
+  if (user.role !== 'admin') {
+    return { userId: null, error: { message: 'Admin role required' } };
+  }
+  
   return { userId: user.id, error: null };
-}
\ No newline at end of file
+}
@@ -1,6 +1,14 @@
-import { fetchProductData } from './keepa-api.ts';
-import { insertProducts } from './database.ts';
-import { LIMITS, BATCH_STATUS } from '../_domain/constants.ts';
+import { createKeepaClient, type KeepaClient } from './keepa-client.ts';
+import { LedgerKeepaClient } from './token-ledger.ts';
+import { fetchProductDataCached } from './product-cache.ts';
+import { insertProductsBisecting, ProductInsertError, deadLetterBatch, renewBatchLeases, isBatchCancelRequested, markBatchCancelled, type ProductData, type PoisonAsin } from './database.ts';
+import type { KeepaProduct } from './keepa-api.ts';
+import { toKeepaError, type KeepaErrorKind } from './keepa-errors.ts';
+import { LIMITS, BATCH_STATUS, ERROR_TYPES, FAILURE_STAGE, LEASE, CANCELLATION, KEEPA, KEEPA_ERROR_KIND, PROGRESS_EVENT } from '../_domain/constants.ts';
+import type { RoutingDecision } from '../_domain/routing.ts';
+import { planBatchRetry, type BatchRetryDecision } from '../_domain/batching.ts';
+import { buildFailureContext } from '../_domain/dead-letter.ts';
+import { publishBatchProgress, ProgressKeepaClient } from './batch-progress.ts';
 
 export interface BatchProcessingResult {
   success: boolean;
@@ -10,13 +18,95 @@ export interface BatchProcessingResult {
   processingTime: number;
   batchId: string;
   errorType?: 'TRANSIENT' | 'HARD';
+  errorKind?: KeepaErrorKind;   // Set when the failure came from the Keepa layer
+  retryAfterMs?: number;        // Keepa's hint for when a retry can succeed
   canFallbackToQueue: boolean;
-  batchStatus: 'COMPLETED' | 'FAILED' | 'PARTIAL';
+  batchStatus: 'COMPLETED' | 'FAILED' | 'PARTIAL' | 'CANCELLED';
+  cacheHits?: number;    // ASINs served from keepa_product_cache
+  cacheMisses?: number;  // ASINs fetched from Keepa (fresh tokens spent)
+  failedAsins?: string[]; // ASINs whose Keepa chunk failed after retries (batch ends PARTIAL)
+  retryScheduledAt?: string; // Set when a TRANSIENT failure sent the batch back to PENDING
+  cancelledAsins?: string[]; // ASINs skipped because the user cancelled mid-batch
+  tokensSaved?: number;      // Keepa tokens not spent thanks to the cancellation
+  poisonAsins?: PoisonAsin[]; // Products the database rejected on their own (rest of the batch stored)
+  leaseLost?: boolean;       // Another worker reclaimed the batch - nothing was written, the new owner finishes it
+}
+
+// Map the camelCase Keepa transform onto the snake_case shape insertProducts persists
+function toProductData(product: KeepaProduct, sellerUuid: string): ProductData {
+  return {
+    asin: product.asin,
+    seller_id: sellerUuid,
+    title: product.title,
+    brand: product.brand,
+    category: product.category,
+    sales_rank: product.salesRank,
+    storefront_price: product.storefrontPrice,
+    buy_box_price: product.buyBoxPrice,
+    currency: product.currency,
+    stock_count: product.stockCount,
+    rating: product.rating,
+    rating_count: product.ratingCount,
+    monthly_sold: product.monthlySold,
+    images_csv: product.imagesCSV,
+    is_fba: product.isFBA,
+    is_fbm: product.isFBM,
+    first_seen_at: product.firstSeenAt,
+    last_update: product.lastUpdate,
+    listed_since: product.listedSince,
+    history: product.history,
+    offers: product.offers,
+    offer_count: product.offerSummary?.offerCount,
+    fba_offer_count: product.offerSummary?.fbaOfferCount,
+    fba_competitor_count: product.offerSummary?.fbaCompetitorCount,
+    buy_box_seller_id: product.offerSummary?.buyBoxSellerId,
+    has_buy_box: product.offerSummary?.hasBuyBox,
+    parent_asin: product.parentAsin,
+    variation_attributes: product.variationAttributes
+  };
+}
+
+// Renew the worker's leases every LEASE.RENEW_INTERVAL_MS until stopped - the batch being processed
+// plus the rest of its claim waiting behind it; losing the current batch's lease calls onLost once
+function startLeaseHeartbeat(
+  supabase: any,
+  batchId: string,
+  workerId: string,
+  waitingBatchIds: string[],
+  onLost: () => void
+): () => void {
+  const timer = setInterval(async () => {
+    const { renewed, error } = await renewBatchLeases(supabase, [batchId, ...waitingBatchIds], workerId);
+    if (error) {
+      console.warn(`⚠️ Lease renewal failed batch=${batchId}: ${error.message}`);
+    } else if (!renewed.includes(batchId)) {
+      console.warn(`⚠️ Lease lost batch=${batchId} worker=${workerId} - another worker reclaimed it, stopping`);
+      clearInterval(timer);
+      onLost();
+    }
+  }, LEASE.RENEW_INTERVAL_MS);
+
+  return () => clearInterval(timer);
+}
+
+// Abort the batch's pending Keepa requests once the user asks to cancel it
+function startCancellationWatch(supabase: any, batchId: string, controller: AbortController): () => void {
+  const timer = setInterval(async () => {
+    const { cancelRequested, error } = await isBatchCancelRequested(supabase, batchId);
+    if (error) {
+      console.warn(`⚠️ Cancellation check failed batch=${batchId}: ${error.message}`);
+    } else if (cancelRequested && !controller.signal.aborted) {
+      console.log(`🛑 Cancel requested batch=${batchId} - stopping after in-flight Keepa chunks`);
+      controller.abort();
+    }
+  }, CANCELLATION.POLL_INTERVAL_MS);
+
+  return () => clearInterval(timer);
 }
 
 /**
  * Shared product batch processor used by both Edge Functions and Trigger.dev
- * Handles the complete flow: batch tracking → Keepa fetch → database insert → status updates
+ * Handles the complete flow: batch tracking → Keepa fetch (via product cache) → database insert → status updates
  * 
  * @param sellerUuid - Seller UUID for database operations
  * @param asins - Array of ASINs to process (max varies by source: edge=50, trigger=100)
@@ -36,6 +126,11 @@ export async function processProductBatch(
     userId?: string;
     source?: 'EDGE' | 'TRIGGER_DEV';
     createBatch?: boolean;
+    keepaClient?: KeepaClient;
+    routing?: RoutingDecision;   // Stored on the created batch for routing analysis
+    retryCount?: number;         // product_batches.retry_count of the claimed batch
+    workerId?: string;           // Lease holder - renewed while the batch processes
+    waitingBatchIds?: string[];  // Rest of the worker's claim, kept leased while this batch runs
   }
 ): Promise<BatchProcessingResult> {
   const startTime = Date.now();
@@ -77,6 +172,45 @@ export async function processProductBatch(
   }
 
   let batchId = opts.batchId || '';
+  let stopHeartbeat = () => {};
+  let stopCancellationWatch = () => {};
+  const cancellation = new AbortController();
+  let leaseLost = false;
+
+  // TRANSIENT failure on a queued batch: back to PENDING until its backoff ends (only while we still hold the lease)
+  const scheduleRetry = async (retryPlan: BatchRetryDecision, errorType: string, errorMessage: string, tokensUsed: number) => {
+    let retryUpdate = supabase
+      .from('product_batches')
+      .update({
+        status: BATCH_STATUS.PENDING,
+        worker_id: null,
+        lease_expires_at: null,
+        retry_count: retryPlan.retryCount,
+        next_attempt_at: retryPlan.nextAttemptAt!.toISOString(),
+        last_error_type: errorType,
+        updated_at: new Date().toISOString(),
+        actual_tokens_used: tokensUsed,
+        error_message: `${errorMessage} (${retryPlan.reason})`
+      })
+      .eq('id', batchId);
+    if (opts.workerId) {
+      retryUpdate = retryUpdate.eq('worker_id', opts.workerId);
+    }
+    await retryUpdate;
+  };
+
+  // Lost the lease mid-batch: the reclaiming worker owns the row now, so leave it untouched
+  const leaseLostResult = (): BatchProcessingResult => ({
+    success: false,
+    processedCount: 0,
+    failedCount: 0,
+    errors: ['Lease lost to another worker'],
+    processingTime: Date.now() - startTime,
+    batchId,
+    canFallbackToQueue: false,
+    batchStatus: 'FAILED',
+    leaseLost: true
+  });
 
   try {
     // Step 1: Create batch record if needed
@@ -90,6 +224,9 @@ export async function processProductBatch(
           new_asins: asins,
           status: BATCH_STATUS.PENDING,
           processing_by: opts.source,
+          routing_reason: opts.routing?.reason ?? null,
+          routing_threshold: opts.routing?.threshold ?? null,
+          routing_token_percent: opts.routing?.tokenPercent ?? null,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
@@ -127,29 +264,127 @@ export async function processProductBatch(
       console.warn(`⚠️ Failed to update batch status to PROCESSING: ${processingUpdate.error.message}`);
     }
 
-    // Step 3: Fetch product data from Keepa API
+    const progress = { batchId, sellerId: sellerUuid, userId: opts.userId };
+    await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_STARTED, { processed: 0, total: asins.length });
+
+    // Keep the claim's lease alive through slow Keepa waits and large inserts
+    if (opts.workerId && batchId) {
+      stopHeartbeat = startLeaseHeartbeat(supabase, batchId, opts.workerId, opts.waitingBatchIds ?? [], () => {
+        leaseLost = true;
+        cancellation.abort(); // Same path as a user cancel - pending Keepa chunks stop
+      });
+    }
+
+    if (batchId) {
+      stopCancellationWatch = startCancellationWatch(supabase, batchId, cancellation);
+    }
+
+    // Step 3: Fetch product data from Keepa API (every request recorded in token_ledger)
+    const keepaClient = new LedgerKeepaClient(opts.keepaClient || createKeepaClient(undefined, { supabase }), supabase, {
+      source: opts.source,
+      userId: opts.userId,
+      sellerId: sellerUuid,
+      batchId
+    });
     let products;
+    let cacheHits = 0;
+    let cacheMisses = 0;
+    let failedAsins: string[] = [];
+    let cancelledAsins: string[] = [];
     try {
-      products = await fetchProductData(asins, domain, keepaSellerId, process.env.KEEPA_API_KEY!, false);
+      const progressClient = new ProgressKeepaClient(keepaClient, supabase, progress, asins.length);
+      const fetchResult = await fetchProductDataCached(asins, domain, keepaSellerId, progressClient, supabase, false, cancellation.signal);
+      products = fetchResult.products;
+      cacheHits = fetchResult.cacheHits;
+      cacheMisses = fetchResult.cacheMisses;
+
+      // Chunks dropped by a cancel request aren't failures - they just never ran
+      const isCancelledChunk = (chunk: { error: { kind: string } }) => chunk.error.kind === KEEPA_ERROR_KIND.CANCELLED;
+      cancelledAsins = fetchResult.failedChunks.filter(isCancelledChunk).flatMap(chunk => chunk.asins);
+      failedAsins = fetchResult.failedChunks.filter(chunk => !isCancelledChunk(chunk)).flatMap(chunk => chunk.asins);
+
+      if (failedAsins.length > 0) {
+        const kinds = [...new Set(fetchResult.failedChunks.map(chunk => chunk.error.kind))].join(',');
+        console.warn(`KEEPA: partial fetch failedAsins=${failedAsins.length} chunks=${fetchResult.failedChunks.length} kinds=${kinds}`);
+      }
     } catch (keepaError) {
-      console.error(`KEEPA: API failed asins=${asins.length} error="${keepaError instanceof Error ? keepaError.message : String(keepaError)}"`);
-      // Classify Keepa API errors
-      const errorMessage = keepaError instanceof Error ? keepaError.message : String(keepaError);
-      const isTransientError = errorMessage.includes('timeout') || 
-                              errorMessage.includes('network') || 
-                              errorMessage.includes('rate limit') ||
-                              errorMessage.includes('503') || 
-                              errorMessage.includes('502');
-
-      // Update batch to FAILED status
-      await supabase
-        .from('product_batches')
-        .update({
-          status: BATCH_STATUS.FAILED,
-          updated_at: new Date().toISOString(),
-          error_message: `Keepa API error: ${errorMessage}`
-        })
-        .eq('id', batchId);
+      // Classify Keepa API errors by type (scheduler, HTTP status, network)
+      const error = toKeepaError(keepaError);
+      const errorMessage = error.message;
+      const isTransientError = error.errorType === ERROR_TYPES.TRANSIENT;
+
+      if (leaseLost) {
+        return leaseLostResult();
+      }
+
+      // Cancelled before anything could be served - nothing to insert
+      if (error.kind === KEEPA_ERROR_KIND.CANCELLED) {
+        const tokensSaved = asins.length * KEEPA.TOKENS_PER_PRODUCT;
+        console.log(`BATCH: cancelled before fetching batch=${batchId} asins=${asins.length}`);
+        await markBatchCancelled(supabase, batchId, tokensSaved, {
+          actual_tokens_used: keepaClient.getTokensConsumed(),
+          error_message: `Cancelled by user: ${asins.length} ASINs skipped`
+        }, opts.workerId);
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_CANCELLED, { processed: 0, total: asins.length },
+          `Cancelled by user: ${asins.length} ASINs skipped`);
+
+        return {
+          success: false,
+          processedCount: 0,
+          failedCount: 0,
+          errors: [],
+          processingTime: Date.now() - startTime,
+          batchId,
+          canFallbackToQueue: false,
+          batchStatus: 'CANCELLED',
+          cancelledAsins: asins,
+          tokensSaved
+        };
+      }
+
+      console.error(`KEEPA: API failed asins=${asins.length} kind=${error.kind} status=${error.statusCode ?? '-'} error="${errorMessage}"`);
+
+      // Queued batches re-enter the queue with backoff on TRANSIENT errors; edge batches fall back to the queue instead
+      const retryPlan = opts.source === 'TRIGGER_DEV'
+        ? planBatchRetry(error.errorType, opts.retryCount ?? 0, error.retryAfterMs)
+        : null;
+
+      if (retryPlan?.retry) {
+        console.warn(`BATCH: ${retryPlan.reason} batch=${batchId} kind=${error.kind}`);
+        await scheduleRetry(retryPlan, error.errorType, `Keepa API error: ${errorMessage}`, keepaClient.getTokensConsumed());
+      } else if (isTransientError && opts.source === 'EDGE') {
+        // Caller re-enqueues these ASINs as new batches - this one just records the failed attempt
+        await supabase
+          .from('product_batches')
+          .update({
+            status: BATCH_STATUS.FAILED,
+            last_error_type: error.errorType,
+            updated_at: new Date().toISOString(),
+            actual_tokens_used: keepaClient.getTokensConsumed(),
+            error_message: `Keepa API error: ${errorMessage}`
+          })
+          .eq('id', batchId);
+      } else {
+        // Hard failure or retries exhausted - dead-letter for admin requeue/discard
+        const message = retryPlan
+          ? `Keepa API error: ${errorMessage} (${retryPlan.reason})`
+          : `Keepa API error: ${errorMessage}`;
+        await deadLetterBatch(supabase, batchId, buildFailureContext(FAILURE_STAGE.KEEPA_FETCH, error.errorType, message, {
+          errorKind: error.kind,
+          statusCode: error.statusCode,
+          retryCount: opts.retryCount
+        }), {
+          actual_tokens_used: keepaClient.getTokensConsumed()
+        }, opts.workerId);
+      }
+
+      if (retryPlan?.retry) {
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_RETRYING, { processed: 0, total: asins.length },
+          `Keepa API error - ${retryPlan.reason}`);
+      } else {
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_FAILED, { processed: 0, failed: asins.length, total: asins.length },
+          `Keepa API error: ${errorMessage}`);
+      }
 
       return {
         success: false,
@@ -158,18 +393,25 @@ export async function processProductBatch(
         errors: [`Keepa API error: ${errorMessage}`],
         processingTime: Date.now() - startTime,
         batchId,
-        errorType: isTransientError ? 'TRANSIENT' : 'HARD',
+        errorType: error.errorType,
+        errorKind: error.kind,
+        retryAfterMs: error.retryAfterMs,
         canFallbackToQueue: isTransientError && opts.source === 'EDGE',
-        batchStatus: 'FAILED'
+        batchStatus: 'FAILED',
+        retryScheduledAt: retryPlan?.nextAttemptAt?.toISOString()
       };
     }
 
-    // Step 4: Insert products into database
+    if (leaseLost) {
+      return leaseLostResult();
+    }
+
+    // Step 4: Insert products into database (a failing upsert is bisected down to the rows that break it)
     let insertResult;
     try {
-      insertResult = await insertProducts(
+      insertResult = await insertProductsBisecting(
         sellerUuid,
-        products,
+        products.map(product => toProductData(product, sellerUuid)),
         domain,
         keepaSellerId,
         supabase,
@@ -178,16 +420,33 @@ export async function processProductBatch(
       );
     } catch (insertError) {
       const errorMessage = insertError instanceof Error ? insertError.message : String(insertError);
-      
-      // Update batch to FAILED status
-      await supabase
-        .from('product_batches')
-        .update({
-          status: BATCH_STATUS.FAILED,
-          updated_at: new Date().toISOString(),
-          error_message: `Database insert error: ${errorMessage}`
-        })
-        .eq('id', batchId);
+      // Row-level errors were bisected away - what reaches here is the database itself failing
+      const errorType = insertError instanceof ProductInsertError ? ERROR_TYPES.TRANSIENT : ERROR_TYPES.HARD;
+      const retryPlan = opts.source === 'TRIGGER_DEV'
+        ? planBatchRetry(errorType, opts.retryCount ?? 0)
+        : null;
+
+      if (retryPlan?.retry) {
+        console.warn(`BATCH: ${retryPlan.reason} batch=${batchId} insert error="${errorMessage}"`);
+        await scheduleRetry(retryPlan, errorType, `Database insert error: ${errorMessage}`, keepaClient.getTokensConsumed());
+      } else {
+        await deadLetterBatch(
+          supabase,
+          batchId,
+          buildFailureContext(FAILURE_STAGE.DATABASE_INSERT, errorType, `Database insert error: ${errorMessage}`, {
+            retryCount: opts.retryCount
+          }),
+          { actual_tokens_used: keepaClient.getTokensConsumed() },
+          opts.workerId
+        );
+      }
+      if (retryPlan?.retry) {
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_RETRYING, { processed: 0, total: asins.length },
+          `Database insert error - ${retryPlan.reason}`);
+      } else {
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_FAILED, { processed: 0, failed: asins.length, total: asins.length },
+          `Database insert error: ${errorMessage}`);
+      }
 
       return {
         success: false,
@@ -196,28 +455,118 @@ export async function processProductBatch(
         errors: [`Database insert error: ${errorMessage}`],
         processingTime: Date.now() - startTime,
         batchId,
-        errorType: 'HARD',
+        errorType,
         canFallbackToQueue: false,
-        batchStatus: 'FAILED'
+        batchStatus: 'FAILED',
+        cacheHits,
+        cacheMisses,
+        retryScheduledAt: retryPlan?.nextAttemptAt?.toISOString()
       };
     }
 
-    // Step 5: Determine final batch status
-    const finalStatus = insertResult.success > 0 ? 
-      (insertResult.failed > 0 ? 'PARTIAL' : 'COMPLETED') : 
+    await publishBatchProgress(supabase, progress, PROGRESS_EVENT.PRODUCTS_INSERTED, {
+      processed: insertResult.success,
+      failed: insertResult.failed,
+      total: asins.length
+    });
+
+    // Step 5: Determine final batch status - failed Keepa chunks and failed inserts both make it PARTIAL,
+    // a cancel that skipped chunks makes it CANCELLED (whatever was fetched is still kept)
+    const failedCount = failedAsins.length + insertResult.failed;
+    const tokensSaved = cancelledAsins.length * KEEPA.TOKENS_PER_PRODUCT;
+    const finalStatus = cancelledAsins.length > 0 ? 'CANCELLED' :
+      insertResult.success > 0 ? 
+      (failedCount > 0 ? 'PARTIAL' : 'COMPLETED') : 
       'FAILED';
 
-    // Step 6: Update batch to final status
-    await supabase
+    const errors: string[] = [];
+    if (cancelledAsins.length > 0) {
+      errors.push(`Cancelled by user: ${cancelledAsins.length} ASINs skipped`);
+    }
+    if (failedAsins.length > 0) {
+      errors.push(`${failedAsins.length} ASINs failed to fetch from Keepa`);
+    }
+    if (insertResult.failed > 0) {
+      errors.push(`${insertResult.failed} products failed to insert`);
+    }
+
+    // Nothing stored: Keepa chunk failures are worth another attempt, rows the database rejected are not
+    if (finalStatus === 'FAILED') {
+      const errorType = failedAsins.length > 0 ? ERROR_TYPES.TRANSIENT : ERROR_TYPES.HARD;
+      const errorMessage = errors.join('; ');
+      const retryPlan = opts.source === 'TRIGGER_DEV'
+        ? planBatchRetry(errorType, opts.retryCount ?? 0)
+        : null;
+
+      if (retryPlan?.retry) {
+        console.warn(`BATCH: ${retryPlan.reason} batch=${batchId} nothing stored="${errorMessage}"`);
+        await scheduleRetry(retryPlan, errorType, errorMessage, keepaClient.getTokensConsumed());
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_RETRYING, { processed: 0, total: asins.length },
+          `Nothing stored - ${retryPlan.reason}`);
+      } else {
+        await deadLetterBatch(
+          supabase,
+          batchId,
+          buildFailureContext(failedAsins.length > 0 ? FAILURE_STAGE.KEEPA_FETCH : FAILURE_STAGE.DATABASE_INSERT, errorType, errorMessage, {
+            retryCount: opts.retryCount
+          }),
+          {
+            actual_tokens_used: keepaClient.getTokensConsumed(),
+            failed_asins: failedAsins.length > 0 ? failedAsins : null,
+            poison_asins: insertResult.poisonAsins.length > 0 ? insertResult.poisonAsins : null
+          },
+          opts.workerId
+        );
+        await publishBatchProgress(supabase, progress, PROGRESS_EVENT.BATCH_FAILED, { processed: 0, failed: failedCount, total: asins.length },
+          errorMessage);
+      }
+
+      return {
+        success: false,
+        processedCount: 0,
+        failedCount,
+        errors,
+        processingTime: Date.now() - startTime,
+        batchId,
+        errorType,
+        canFallbackToQueue: false,
+        batchStatus: 'FAILED',
+        cacheHits,
+        cacheMisses,
+        failedAsins,
+        poisonAsins: insertResult.poisonAsins,
+        retryScheduledAt: retryPlan?.nextAttemptAt?.toISOString()
+      };
+    }
+
+    // Step 6: Update batch to final status (leased batches only while this worker still holds the lease)
+    let finalUpdate = supabase
       .from('product_batches')
       .update({
-        status: finalStatus === 'PARTIAL' ? BATCH_STATUS.COMPLETED : finalStatus,
+        status: BATCH_STATUS[finalStatus],
         completed_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
-        actual_tokens_used: insertResult.success * 7, // Estimate 7 tokens per product
-        error_message: insertResult.failed > 0 ? `${insertResult.failed} products failed to insert` : null
+        actual_tokens_used: keepaClient.getTokensConsumed(), // Reported by Keepa, cache hits cost nothing
+        failed_asins: failedAsins.length > 0 ? failedAsins : null,
+        poison_asins: insertResult.poisonAsins.length > 0 ? insertResult.poisonAsins : null,
+        error_message: errors.length > 0 ? errors.join('; ') : null,
+        ...(finalStatus === 'CANCELLED' && {
+          cancelled_at: new Date().toISOString(),
+          tokens_saved: tokensSaved
+        })
       })
       .eq('id', batchId);
+    if (opts.workerId) {
+      finalUpdate = finalUpdate.eq('worker_id', opts.workerId);
+    }
+    await finalUpdate;
+
+    const finalEvent = finalStatus === 'CANCELLED' ? PROGRESS_EVENT.BATCH_CANCELLED : PROGRESS_EVENT.BATCH_COMPLETED;
+    await publishBatchProgress(supabase, progress, finalEvent, {
+      processed: insertResult.success,
+      failed: failedCount,
+      total: asins.length
+    }, errors.length > 0 ? errors.join('; ') : undefined);
 
     // Step 7: Update seller timestamp if successful
     if (insertResult.success > 0) {
@@ -234,27 +583,35 @@ export async function processProductBatch(
     return {
       success: insertResult.success > 0,
       processedCount: insertResult.success,
-      failedCount: insertResult.failed,
-      errors: insertResult.failed > 0 ? [`${insertResult.failed} products failed to process`] : [],
+      failedCount,
+      errors,
       processingTime,
       batchId,
       canFallbackToQueue: false,
-      batchStatus: finalStatus
+      batchStatus: finalStatus,
+      cacheHits,
+      cacheMisses,
+      failedAsins,
+      poisonAsins: insertResult.poisonAsins,
+      ...(finalStatus === 'CANCELLED' && { cancelledAsins, tokensSaved })
     };
 
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     
-    // Try to update batch to FAILED if we have a batchId
+    // Try to dead-letter the batch if we have a batchId
     if (batchId) {
-      await supabase
-        .from('product_batches')
-        .update({
-          status: BATCH_STATUS.FAILED,
-          updated_at: new Date().toISOString(),
-          error_message: `Processing error: ${errorMessage}`
-        })
-        .eq('id', batchId); // Ignore update errors during error handling
+      await deadLetterBatch(
+        supabase,
+        batchId,
+        buildFailureContext(FAILURE_STAGE.PROCESSING, ERROR_TYPES.HARD, `Processing error: ${errorMessage}`, {
+          retryCount: opts.retryCount
+        }),
+        {},
+        opts.workerId
+      ); // Ignore update errors during error handling
+      await publishBatchProgress(supabase, { batchId, sellerId: sellerUuid, userId: opts.userId }, PROGRESS_EVENT.BATCH_FAILED,
+        { processed: 0, failed: asins.length, total: asins.length }, `Processing error: ${errorMessage}`);
     }
 
     return {
@@ -268,5 +625,8 @@ export async function processProductBatch(
       canFallbackToQueue: false,
       batchStatus: 'FAILED'
     };
+  } finally {
+    stopHeartbeat();
+    stopCancellationWatch();
   }
 }
\ No newline at end of file
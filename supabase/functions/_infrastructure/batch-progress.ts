@@ -0,0 +1,65 @@
+import { PROGRESS_EVENT, BATCH_PROGRESS } from '../_domain/constants.ts';
+import { buildProgressEvent, type ProgressContext, type ProgressEventType } from '../_domain/progress.ts';
+import { insertBatchProgressEvent, deleteBatchProgressBefore } from './database.ts';
+import type { KeepaClient } from './keepa-client.ts';
+
+/**
+ * Publish a batch_progress event for the seller's subscribers.
+ * Progress is best effort - a failed insert is logged, never surfaced to the batch.
+ */
+export async function publishBatchProgress(
+  supabase: any,
+  context: ProgressContext,
+  event: ProgressEventType,
+  counts: { processed: number; total: number; failed?: number },
+  message?: string
+): Promise<void> {
+  if (!context.batchId) {
+    return;
+  }
+
+  const { error } = await insertBatchProgressEvent(supabase, buildProgressEvent(context, event, counts, message));
+  if (error) {
+    console.warn(`⚠️ Progress event failed (${event}, batch=${context.batchId}): ${error.message}`);
+  }
+}
+
+// Drop events older than BATCH_PROGRESS.RETENTION_MS - best effort like publishing
+export async function pruneBatchProgress(supabase: any): Promise<void> {
+  const { deleted, error } = await deleteBatchProgressBefore(supabase, new Date(Date.now() - BATCH_PROGRESS.RETENTION_MS));
+  if (error) {
+    console.warn(`⚠️ Progress prune failed: ${error.message}`);
+  } else if (deleted > 0) {
+    console.log(`🧹 Pruned ${deleted} batch_progress events`);
+  }
+}
+
+// Publishes CHUNK_FETCHED after every successful Keepa product request of one batch
+export class ProgressKeepaClient implements KeepaClient {
+  private fetched = 0;
+
+  constructor(
+    private inner: KeepaClient,
+    private supabase: any,
+    private context: ProgressContext,
+    private total: number
+  ) {}
+
+  seller(sellerId: string, domain: number): Promise<Response> {
+    return this.inner.seller(sellerId, domain);
+  }
+
+  async product(asins: string[], domain: number, signal?: AbortSignal): Promise<Response> {
+    const response = await this.inner.product(asins, domain, signal);
+
+    if (response.ok) {
+      this.fetched += asins.length;
+      await publishBatchProgress(this.supabase, this.context, PROGRESS_EVENT.CHUNK_FETCHED, {
+        processed: Math.min(this.fetched, this.total),
+        total: this.total
+      });
+    }
+
+    return response;
+  }
+}
@@ -1,4 +1,13 @@
-import { BATCH_STATUS, BATCH_PRIORITY, JOB_TYPE, BATCH_TYPE } from '../_domain/constants.ts';
+import { BATCH_STATUS, BATCH_PRIORITY, JOB_TYPE, BATCH_TYPE, HISTORY, CLAIMING, PLAN, KEEPA, LEASE, ERROR_TYPES, FAILURE_STAGE, INSERT_BISECT, CONFIRMATION } from '../_domain/constants.ts';
+import { splitInHalves, isRowDataError } from '../_domain/batching.ts';
+import { HISTORY_METRICS, type HistoryMetric, type HistoryPoint, type ProductHistorySeries } from '../_domain/history.ts';
+import type { ProductOffer } from '../_domain/offers.ts';
+import type { VariationAttribute } from '../_domain/variations.ts';
+import { buildProductUrl, getMarketplace } from '../_domain/marketplaces.ts';
+import { selectFairBatches, type UserLoad } from '../_domain/fairness.ts';
+import { planRequeue, buildFailureContext, type FailureContext } from '../_domain/dead-letter.ts';
+import type { BatchProgressEvent } from '../_domain/progress.ts';
+import type { ConfirmationOffer, DeclinePlan } from '../_domain/confirmation.ts';
 
 export interface SellerData {
   id?: string;
@@ -25,6 +34,7 @@ export interface ProductData {
   sales_rank?: number | null;
   storefront_price?: number | null;
   buy_box_price?: number | null;
+  currency?: string;
   stock_count?: number | null;
   rating?: number | null;
   rating_count?: number | null;
@@ -35,6 +45,15 @@ export interface ProductData {
   first_seen_at?: string;
   last_update?: number;
   listed_since?: number;
+  history?: ProductHistorySeries;
+  offers?: ProductOffer[];
+  offer_count?: number;
+  fba_offer_count?: number;
+  fba_competitor_count?: number;
+  buy_box_seller_id?: string | null;
+  has_buy_box?: boolean;
+  parent_asin?: string | null;
+  variation_attributes?: VariationAttribute[];
 }
 
 export interface BatchData {
@@ -52,10 +71,35 @@ export interface BatchData {
   started_at?: string;
   completed_at?: string;
   error_message?: string;
+  retry_count?: number;
+  next_attempt_at?: string | null;   // Backoff after a TRANSIENT failure - not claimable before this
+  last_error_type?: 'TRANSIENT' | 'HARD' | null;
+  failure_context?: FailureContext | null;
+  dead_lettered_at?: string | null;
+  lease_expires_at?: string | null;  // Held by worker_id until then; reclaimable after
+  reclaim_count?: number;
+  reclaimed_from_worker_id?: string | null;
+  cancel_requested_at?: string | null;  // User asked a worker to stop this batch
+  cancelled_at?: string | null;
+  tokens_saved?: number | null;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface TokenLedgerEntry {
+  operation: string;
+  tokens_consumed: number;
+  tokens_left?: number | null;
+  status_code?: number;
+  user_id?: string | null;
+  seller_id?: string | null;
+  keepa_seller_id?: string | null;
+  batch_id?: string | null;
+  domain?: number;
+  asin_count?: number;
+  source?: string;
+}
+
 export interface AsinComparison {
   existingCount: number;
   pendingCount: number;
@@ -67,6 +111,28 @@ export interface InsertResult {
   success: number;
   failed: number;
   errors: string[];
+  historyPoints?: number;
+  offersStored?: number;
+  errorCode?: string;   // SQLSTATE when the group's upsert failed as a whole ('UNKNOWN' if it threw without one)
+}
+
+// A product whose row alone makes the upsert fail (found by insertProductsBisecting)
+export interface PoisonAsin {
+  asin: string;
+  error: string;
+}
+
+export interface BisectedInsertResult extends InsertResult {
+  poisonAsins: PoisonAsin[];
+  insertCalls: number;
+}
+
+// Upsert failure no single row explains (timeout, connection, permissions) - the batch is retried whole
+export class ProductInsertError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'ProductInsertError';
+  }
 }
 
 export async function getSellerBySellerIdAndDomain(
@@ -195,6 +261,9 @@ export async function insertProducts(
   const errors: string[] = [];
   let success = 0;
   let failed = 0;
+  let historyPoints = 0;
+  let offersStored = 0;
+  let errorCode: string | undefined;
 
   if (isDev) {
     console.log(`💾 Batch processing ${products.length} products...`);
@@ -224,7 +293,9 @@ export async function insertProducts(
         brand: product.brand,
         category: product.category,
         images: imageIds,
-        product_url: `https://amazon.com/dp/${product.asin}`,
+        product_url: buildProductUrl(product.asin, domain),
+        parent_asin: product.parent_asin ?? null,
+        variation_attributes: product.variation_attributes ?? [],
         updated_at: new Date().toISOString(),
       };
 
@@ -238,6 +309,7 @@ export async function insertProducts(
         sales_rank: product.sales_rank,
         storefront_price: product.storefront_price,
         buy_box_price: product.buy_box_price,
+        currency: product.currency ?? getMarketplace(domain).currency,
         stock_count: product.stock_count,
         rating: product.rating,
         rating_count: product.rating_count,
@@ -245,6 +317,11 @@ export async function insertProducts(
         is_fba: product.is_fba,
         is_fbm: product.is_fbm,
         first_seen_at: product.first_seen_at,
+        offer_count: product.offer_count,
+        fba_offer_count: product.fba_offer_count,
+        fba_competitor_count: product.fba_competitor_count,
+        buy_box_seller_id: product.buy_box_seller_id,
+        has_buy_box: product.has_buy_box,
         processing_source: processingSource,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
@@ -279,6 +356,7 @@ export async function insertProducts(
 
       if (templateError) {
         failed += validRecords.length;
+        errorCode = templateError.code;
         const batchError = `Template batch insert failed: ${templateError.message}`;
         errors.push(batchError);
         if (isDev) {
@@ -300,6 +378,7 @@ export async function insertProducts(
             sales_rank: r.seller.sales_rank,
             storefront_price: r.seller.storefront_price,
             buy_box_price: r.seller.buy_box_price,
+            currency: r.seller.currency,
             stock_count: r.seller.stock_count,
             rating: r.seller.rating,
             rating_count: r.seller.rating_count,
@@ -307,6 +386,11 @@ export async function insertProducts(
             is_fba: r.seller.is_fba,
             is_fbm: r.seller.is_fbm,
             first_seen_at: r.seller.first_seen_at,
+            offer_count: r.seller.offer_count,
+            fba_offer_count: r.seller.fba_offer_count,
+            fba_competitor_count: r.seller.fba_competitor_count,
+            buy_box_seller_id: r.seller.buy_box_seller_id,
+            has_buy_box: r.seller.has_buy_box,
             processing_source: r.seller.processing_source,
             created_at: r.seller.created_at,
             updated_at: r.seller.updated_at,
@@ -321,6 +405,7 @@ export async function insertProducts(
 
         if (sellerError) {
           failed += validRecords.length;
+          errorCode = sellerError.code;
           const batchError = `Seller batch insert failed: ${sellerError.message}`;
           errors.push(batchError);
           if (isDev) {
@@ -331,10 +416,35 @@ export async function insertProducts(
           if (isDev) {
             console.log(`✅ Batch inserted ${validRecords.length} products successfully`);
           }
+
+          // Phase 3: Append history points (best-effort - products are already stored)
+          const insertedAsins = new Set(validRecords.map(r => r.seller.asin_id));
+          const historyResult = await insertProductHistory(
+            supabase,
+            sellerId,
+            domain,
+            products.filter(p => insertedAsins.has(p.asin))
+          );
+          historyPoints = historyResult.inserted;
+          if (historyResult.error) {
+            errors.push(`History insert failed: ${historyResult.error.message}`);
+          }
+
+          // Phase 4: Replace the offer snapshot for these listings (best-effort, shared across sellers)
+          const offersResult = await replaceProductOffers(
+            supabase,
+            domain,
+            products.filter(p => insertedAsins.has(p.asin))
+          );
+          offersStored = offersResult.stored;
+          if (offersResult.error) {
+            errors.push(`Offer insert failed: ${offersResult.error.message}`);
+          }
         }
       }
     } catch (error) {
       failed += validRecords.length;
+      errorCode = (error as { code?: string })?.code ?? 'UNKNOWN';
       const batchError = `Batch operation error: ${error}`;
       errors.push(batchError);
       if (isDev) {
@@ -351,10 +461,267 @@ export async function insertProducts(
   return {
     success,
     failed,
-    errors
+    errors,
+    historyPoints,
+    offersStored,
+    errorCode
   };
 }
 
+/**
+ * insertProducts, bisecting on failure: a group whose upsert fails as a whole with a row-level
+ * error (isRowDataError) is split in halves and retried until the offending products are isolated.
+ * Single products that still fail are returned as poisonAsins with the DB error; everything else
+ * is stored. Any other whole-group failure throws ProductInsertError so the batch is retried.
+ * Bounded by INSERT_BISECT.MAX_INSERT_CALLS - groups left when it runs out count as failed.
+ */
+export async function insertProductsBisecting(
+  sellerId: string,
+  products: ProductData[],
+  domain: number,
+  keepaSellerID: string,
+  supabase: any,
+  isDev: boolean = false,
+  processingSource: string = 'UNKNOWN'
+): Promise<BisectedInsertResult> {
+  const result: BisectedInsertResult = {
+    success: 0,
+    failed: 0,
+    errors: [],
+    historyPoints: 0,
+    offersStored: 0,
+    poisonAsins: [],
+    insertCalls: 0
+  };
+
+  const pending: ProductData[][] = [products];
+  while (pending.length > 0) {
+    const group = pending.shift()!;
+
+    if (result.insertCalls >= INSERT_BISECT.MAX_INSERT_CALLS) {
+      result.failed += group.length;
+      result.errors.push(`${group.length} products not retried - bisect limit of ${INSERT_BISECT.MAX_INSERT_CALLS} inserts reached`);
+      continue;
+    }
+
+    const attempt = await insertProducts(sellerId, group, domain, keepaSellerID, supabase, isDev, processingSource);
+    result.insertCalls++;
+
+    const wholeGroupFailed = attempt.success === 0 && attempt.failed > 0;
+    if (!wholeGroupFailed) {
+      result.success += attempt.success;
+      result.failed += attempt.failed;
+      result.errors.push(...attempt.errors);
+      result.historyPoints! += attempt.historyPoints ?? 0;
+      result.offersStored! += attempt.offersStored ?? 0;
+      continue;
+    }
+
+    // No errorCode: every product failed before the upsert, which is row-level too
+    if (attempt.errorCode && !isRowDataError(attempt.errorCode)) {
+      throw new ProductInsertError(attempt.errors.join('; ') || 'Insert failed', attempt.errorCode);
+    }
+
+    if (group.length === 1) {
+      const error = attempt.errors.join('; ') || 'Insert failed';
+      console.warn(`☠️ Poison ASIN ${group[0].asin} (seller ${sellerId}): ${error}`);
+      result.failed += 1;
+      result.poisonAsins.push({ asin: group[0].asin, error });
+      continue;
+    }
+
+    if (isDev) {
+      console.log(`🔪 Insert of ${group.length} products failed - bisecting`);
+    }
+    pending.push(...splitInHalves(group));
+  }
+
+  if (result.poisonAsins.length > 0) {
+    result.errors.push(`${result.poisonAsins.length} products rejected by the database: ${result.poisonAsins.map(p => p.asin).join(', ')}`);
+  }
+
+  return result;
+}
+
+// Flatten per-product series into product_history rows and upsert in chunks
+export async function insertProductHistory(
+  supabase: any,
+  sellerId: string,
+  domain: number,
+  products: ProductData[]
+): Promise<{ inserted: number; error: any }> {
+  const rows: any[] = [];
+
+  for (const product of products) {
+    if (!product.history) continue;
+
+    for (const [seriesKey, metric] of Object.entries(HISTORY_METRICS)) {
+      const points = product.history[seriesKey as keyof ProductHistorySeries] || [];
+      for (const point of points) {
+        rows.push({
+          seller_id: sellerId,
+          asin_id: product.asin,
+          domain: domain,
+          metric: metric,
+          recorded_at: point.recordedAt,
+          value: point.value
+        });
+      }
+    }
+  }
+
+  let inserted = 0;
+
+  for (let i = 0; i < rows.length; i += HISTORY.INSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + HISTORY.INSERT_CHUNK_SIZE);
+    const { error } = await supabase
+      .from('product_history')
+      .upsert(chunk, {
+        onConflict: 'seller_id,asin_id,domain,metric,recorded_at',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      return { inserted, error };
+    }
+
+    inserted += chunk.length;
+  }
+
+  return { inserted, error: null };
+}
+
+// Upsert the current live offers per listing, then drop offers that are no longer live
+export async function replaceProductOffers(
+  supabase: any,
+  domain: number,
+  products: ProductData[]
+): Promise<{ stored: number; error: any }> {
+  const capturedAt = new Date().toISOString();
+  const asins = products.filter(p => p.offers).map(p => p.asin);
+  const rows: any[] = [];
+
+  for (const product of products) {
+    for (const offer of product.offers || []) {
+      rows.push({
+        asin_id: product.asin,
+        domain: domain,
+        offer_id: offer.offerId,
+        offer_seller_id: offer.sellerId,
+        price: offer.price,
+        shipping: offer.shipping,
+        currency: getMarketplace(domain).currency,
+        condition: offer.condition,
+        is_fba: offer.isFBA,
+        is_prime: offer.isPrime,
+        is_amazon: offer.isAmazon,
+        is_buy_box_winner: offer.isBuyBoxWinner,
+        last_seen_at: offer.lastSeenAt,
+        captured_at: capturedAt
+      });
+    }
+  }
+
+  if (asins.length === 0) {
+    return { stored: 0, error: null };
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('product_offers')
+      .upsert(rows, {
+        onConflict: 'asin_id,domain,offer_id'
+      });
+
+    if (error) {
+      return { stored: 0, error };
+    }
+  }
+
+  const { error: staleError } = await supabase
+    .from('product_offers')
+    .delete()
+    .eq('domain', domain)
+    .in('asin_id', asins)
+    .lt('captured_at', capturedAt);
+
+  return { stored: rows.length, error: staleError };
+}
+
+// Seller catalog rolled up by variation family (seller_catalog_groups view)
+export async function getSellerCatalogGroups(
+  supabase: any,
+  sellerUuid: string,
+  domain: number,
+  options?: {
+    limit?: number;
+    offset?: number;
+  }
+): Promise<{ data: any[]; count: number; error: any }> {
+  const limit = options?.limit ?? 50;
+  const offset = options?.offset ?? 0;
+
+  const { data, count, error } = await supabase
+    .from('seller_catalog_groups')
+    .select('*', { count: 'exact' })
+    .eq('seller_id', sellerUuid)
+    .eq('domain', domain)
+    .order('monthly_sales', { ascending: false, nullsFirst: false })
+    .range(offset, offset + limit - 1);
+
+  return { data: data || [], count: count || 0, error };
+}
+
+// Read series for charting, grouped by metric and ordered by time
+export async function getProductHistory(
+  supabase: any,
+  sellerUuid: string,
+  asin: string,
+  domain: number,
+  options?: {
+    metrics?: HistoryMetric[];
+    since?: string;
+  }
+): Promise<{ series: Record<HistoryMetric, HistoryPoint[]>; error: any }> {
+  const series: Record<HistoryMetric, HistoryPoint[]> = {
+    storefront_price: [],
+    buy_box_price: [],
+    sales_rank: [],
+    stock: []
+  };
+
+  let query = supabase
+    .from('product_history')
+    .select('metric, recorded_at, value')
+    .eq('seller_id', sellerUuid)
+    .eq('asin_id', asin)
+    .eq('domain', domain)
+    .order('recorded_at', { ascending: true });
+
+  if (options?.metrics && options.metrics.length > 0) {
+    query = query.in('metric', options.metrics);
+  }
+
+  if (options?.since) {
+    query = query.gte('recorded_at', options.since);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return { series, error };
+  }
+
+  for (const row of data || []) {
+    series[row.metric as HistoryMetric]?.push({
+      recordedAt: row.recorded_at,
+      value: Number(row.value)
+    });
+  }
+
+  return { series, error: null };
+}
+
 export async function getActiveBatch(
   supabase: any,
   sellerUuid: string
@@ -447,12 +814,563 @@ export async function claimBatches(
   return { data: data || [], error: null };
 }
 
+// A user's not-yet-started batches for one seller, with their scheduled start
+export async function getPendingBatchSchedule(
+  supabase: any,
+  userId: string,
+  sellerUuid: string
+): Promise<{ data: any[]; error: any }> {
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('id, product_count, priority, scheduled_for, routing_reason, created_at')
+    .eq('user_id', userId)
+    .eq('seller_id', sellerUuid)
+    .eq('status', BATCH_STATUS.PENDING)
+    .is('worker_id', null)
+    .order('created_at', { ascending: true });
+
+  return { data: data || [], error };
+}
+
+// Move a user's pending batches to a new start time (null = claim as soon as possible)
+export async function reschedulePendingBatches(
+  supabase: any,
+  userId: string,
+  sellerUuid: string,
+  scheduledFor: string | null,
+  batchIds?: string[]
+): Promise<{ data: any[]; error: any }> {
+  let query = supabase
+    .from('product_batches')
+    .update({
+      scheduled_for: scheduledFor,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId)
+    .eq('seller_id', sellerUuid)
+    .eq('status', BATCH_STATUS.PENDING)
+    .is('worker_id', null);
+
+  if (batchIds && batchIds.length > 0) {
+    query = query.in('id', batchIds);
+  }
+
+  const { data, error } = await query.select('id, product_count, priority, scheduled_for');
+
+  return { data: data || [], error };
+}
+
+export interface BatchCancellation {
+  cancelledBatches: number;     // PENDING batches cancelled outright
+  cancelledProducts: number;
+  stoppingBatches: number;      // PROCESSING batches asked to stop after their current Keepa chunk
+  tokensSaved: number;          // Upper bound - cache hits would have been free anyway
+}
+
+/**
+ * Cancel a user's queued work for a seller.
+ * PENDING batches become CANCELLED immediately; PROCESSING batches get cancel_requested_at
+ * and their worker marks them CANCELLED once it stops (recording the tokens it didn't spend).
+ */
+export async function cancelSellerBatches(
+  supabase: any,
+  userId: string,
+  sellerUuid: string
+): Promise<{ data: BatchCancellation; error: any }> {
+  const now = new Date().toISOString();
+  const result: BatchCancellation = { cancelledBatches: 0, cancelledProducts: 0, stoppingBatches: 0, tokensSaved: 0 };
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('product_batches')
+    .select('id, product_count')
+    .eq('user_id', userId)
+    .eq('seller_id', sellerUuid)
+    .eq('status', BATCH_STATUS.PENDING);
+
+  if (pendingError) {
+    return { data: result, error: pendingError };
+  }
+
+  // Batches of one seller share a handful of sizes - one update per size keeps tokens_saved per row
+  const idsBySize = new Map<number, string[]>();
+  for (const batch of pending || []) {
+    idsBySize.set(batch.product_count, [...(idsBySize.get(batch.product_count) || []), batch.id]);
+  }
+
+  for (const [productCount, ids] of idsBySize) {
+    const { data, error } = await supabase
+      .from('product_batches')
+      .update({
+        status: BATCH_STATUS.CANCELLED,
+        cancelled_at: now,
+        cancelled_by: userId,
+        tokens_saved: productCount * KEEPA.TOKENS_PER_PRODUCT,
+        scheduled_for: null,
+        next_attempt_at: null,
+        updated_at: now
+      })
+      .in('id', ids)
+      .eq('status', BATCH_STATUS.PENDING)   // A worker may have claimed it since the select
+      .select('id');
+
+    if (error) {
+      return { data: result, error };
+    }
+
+    const cancelled = (data || []).length;
+    result.cancelledBatches += cancelled;
+    result.cancelledProducts += cancelled * productCount;
+    result.tokensSaved += cancelled * productCount * KEEPA.TOKENS_PER_PRODUCT;
+  }
+
+  const { data: stopping, error: stopError } = await supabase
+    .from('product_batches')
+    .update({
+      cancel_requested_at: now,
+      cancelled_by: userId,
+      updated_at: now
+    })
+    .eq('user_id', userId)
+    .eq('seller_id', sellerUuid)
+    .eq('status', BATCH_STATUS.PROCESSING)
+    .is('cancel_requested_at', null)
+    .select('id');
+
+  result.stoppingBatches = (stopping || []).length;
+
+  return { data: result, error: stopError };
+}
+
+export async function isBatchCancelRequested(
+  supabase: any,
+  batchId: string
+): Promise<{ cancelRequested: boolean; error: any }> {
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('cancel_requested_at')
+    .eq('id', batchId)
+    .maybeSingle();
+
+  return { cancelRequested: !!data?.cancel_requested_at, error };
+}
+
+// Worker acknowledged a cancel request: the batch stops here
+export async function markBatchCancelled(
+  supabase: any,
+  batchId: string,
+  tokensSaved: number,
+  updates: Record<string, unknown> = {},
+  workerId?: string
+): Promise<{ error: any }> {
+  let query = supabase
+    .from('product_batches')
+    .update({
+      status: BATCH_STATUS.CANCELLED,
+      cancelled_at: new Date().toISOString(),
+      tokens_saved: tokensSaved,
+      worker_id: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString(),
+      ...updates
+    })
+    .eq('id', batchId);
+
+  // Only the lease holder may finish a leased batch - a reclaimed one belongs to the new worker
+  if (workerId) {
+    query = query.eq('worker_id', workerId);
+  }
+
+  const { error } = await query;
+  return { error };
+}
+
+/**
+ * Cancel held groups nobody confirmed within CONFIRMATION.EXPIRY_MS (one seller's, or all of them).
+ */
+export async function expireHeldBatches(
+  supabase: any,
+  sellerUuid?: string
+): Promise<{ expired: number; error: any }> {
+  const now = new Date().toISOString();
+  let query = supabase
+    .from('product_batches')
+    .update({
+      status: BATCH_STATUS.CANCELLED,
+      available_for_confirmation: false,
+      cancelled_at: now,
+      error_message: 'Nobody confirmed these batches in time',
+      updated_at: now
+    })
+    .eq('status', BATCH_STATUS.AWAITING_CONFIRMATION)
+    .lt('created_at', new Date(Date.now() - CONFIRMATION.EXPIRY_MS).toISOString());
+
+  if (sellerUuid) {
+    query = query.eq('seller_id', sellerUuid);
+  }
+
+  const { data, error } = await query.select('id');
+  return { expired: data?.length || 0, error };
+}
+
+/**
+ * The batch group held for confirmation on a seller (oldest group if there are several).
+ * Offer and decline lists are written to every batch of the group together.
+ * Expired groups are cancelled first so they are never offered.
+ */
+export async function getConfirmationOffer(
+  supabase: any,
+  sellerUuid: string
+): Promise<{ data: ConfirmationOffer | null; error: any }> {
+  const { error: expireError } = await expireHeldBatches(supabase, sellerUuid);
+  if (expireError) {
+    return { data: null, error: expireError };
+  }
+
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('id, enqueue_key, product_count, estimated_tokens, requested_by_user_id, confirmation_offered_to_user_ids, confirmation_declined_user_ids, created_at')
+    .eq('seller_id', sellerUuid)
+    .eq('status', BATCH_STATUS.AWAITING_CONFIRMATION)
+    .order('created_at', { ascending: true })
+    .order('batch_index', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    return { data: null, error };
+  }
+
+  const first = data[0];
+  const group = data.filter((row: any) => row.enqueue_key === first.enqueue_key);
+
+  return {
+    data: {
+      enqueueKey: first.enqueue_key,
+      batchIds: group.map((row: any) => row.id),
+      productCount: group.reduce((sum: number, row: any) => sum + (row.product_count || 0), 0),
+      estimatedTokens: group.reduce((sum: number, row: any) => sum + (row.estimated_tokens || 0), 0),
+      requestedBy: first.requested_by_user_id ?? null,
+      offeredTo: first.confirmation_offered_to_user_ids || [],
+      declinedBy: first.confirmation_declined_user_ids || []
+    },
+    error: null
+  };
+}
+
+// Record who has been asked to confirm a held group. Only applies while the lists are still the
+// ones in offer - nothing is updated if another request changed them since it was read
+export async function offerConfirmation(
+  supabase: any,
+  offer: ConfirmationOffer,
+  offeredTo: string[]
+): Promise<{ data: any[]; error: any }> {
+  const { data, error } = await supabase
+    .from('product_batches')
+    .update({
+      confirmation_offered_to_user_ids: offeredTo,
+      updated_at: new Date().toISOString()
+    })
+    .in('id', offer.batchIds)
+    .eq('status', BATCH_STATUS.AWAITING_CONFIRMATION)
+    .contains('confirmation_offered_to_user_ids', offer.offeredTo)
+    .containedBy('confirmation_offered_to_user_ids', offer.offeredTo)
+    .select('id');
+
+  return { data: data || [], error };
+}
+
+// Release a held group into the queue; the confirming user owns (and pays for) the batches
+export async function confirmHeldBatches(
+  supabase: any,
+  batchIds: string[],
+  userId: string
+): Promise<{ data: any[]; error: any }> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('product_batches')
+    .update({
+      status: BATCH_STATUS.PENDING,
+      user_id: userId,
+      available_for_confirmation: false,
+      user_confirmed_at: now,
+      updated_at: now
+    })
+    .in('id', batchIds)
+    .eq('status', BATCH_STATUS.AWAITING_CONFIRMATION)   // Another user may have confirmed or declined first
+    .select('id, product_count, priority');
+
+  return { data: data || [], error };
+}
+
+// Apply planDecline: pass the group on to the next tracker, or cancel it when nobody is left.
+// Compare-and-set like offerConfirmation, so a concurrent offer or decline isn't overwritten
+export async function declineHeldBatches(
+  supabase: any,
+  offer: ConfirmationOffer,
+  userId: string,
+  plan: DeclinePlan
+): Promise<{ data: any[]; error: any }> {
+  const now = new Date().toISOString();
+  const update: Record<string, unknown> = {
+    confirmation_declined_user_ids: plan.declinedBy,
+    confirmation_offered_to_user_ids: plan.offeredTo,
+    user_declined_at: now,
+    updated_at: now,
+    ...(plan.cancel && {
+      status: BATCH_STATUS.CANCELLED,
+      available_for_confirmation: false,
+      cancelled_at: now,
+      cancelled_by: userId,
+      tokens_saved: offer.estimatedTokens,
+      error_message: 'Declined by every user tracking this seller'
+    })
+  };
+
+  const { data, error } = await supabase
+    .from('product_batches')
+    .update(update)
+    .in('id', offer.batchIds)
+    .eq('status', BATCH_STATUS.AWAITING_CONFIRMATION)
+    .contains('confirmation_offered_to_user_ids', offer.offeredTo)
+    .containedBy('confirmation_offered_to_user_ids', offer.offeredTo)
+    .contains('confirmation_declined_user_ids', offer.declinedBy)
+    .containedBy('confirmation_declined_user_ids', offer.declinedBy)
+    .select('id');
+
+  return { data: data || [], error };
+}
+
+// Users tracking a seller (candidates for a declined confirmation)
+export async function getSellerTrackerIds(
+  supabase: any,
+  sellerUuid: string
+): Promise<{ userIds: string[]; error: any }> {
+  const { data, error } = await supabase
+    .from('user_sellers')
+    .select('user_id')
+    .eq('seller_id', sellerUuid);
+
+  return { userIds: (data || []).map((row: any) => row.user_id), error };
+}
+
+// Terminal failure: park the batch in the dead-letter queue with its failure context (workerId: only while we hold the lease)
+export async function deadLetterBatch(
+  supabase: any,
+  batchId: string,
+  context: FailureContext,
+  updates: Record<string, unknown> = {},
+  workerId?: string
+): Promise<{ error: any }> {
+  let query = supabase
+    .from('product_batches')
+    .update({
+      status: BATCH_STATUS.DEAD_LETTER,
+      last_error_type: context.errorType,
+      error_message: context.message,
+      failure_context: context,
+      dead_lettered_at: context.failedAt,
+      updated_at: new Date().toISOString(),
+      ...updates
+    })
+    .eq('id', batchId);
+
+  if (workerId) {
+    query = query.eq('worker_id', workerId);
+  }
+
+  const { error } = await query;
+  return { error };
+}
+
+export async function listDeadLetterBatches(
+  supabase: any,
+  options: { limit: number; offset: number; sellerUuid?: string; errorType?: string }
+): Promise<{ data: any[]; count: number; error: any }> {
+  let query = supabase
+    .from('product_batches')
+    .select('id, seller_id, user_id, product_count, priority, retry_count, last_error_type, error_message, failure_context, dead_lettered_at, created_at', { count: 'exact' })
+    .eq('status', BATCH_STATUS.DEAD_LETTER);
+
+  if (options.sellerUuid) {
+    query = query.eq('seller_id', options.sellerUuid);
+  }
+  if (options.errorType) {
+    query = query.eq('last_error_type', options.errorType);
+  }
+
+  const { data, count, error } = await query
+    .order('dead_lettered_at', { ascending: false })
+    .range(options.offset, options.offset + options.limit - 1);
+
+  return { data: data || [], count: count || 0, error };
+}
+
+// Full row, ASINs included, for inspecting one dead letter
+export async function getDeadLetterBatch(
+  supabase: any,
+  batchId: string
+): Promise<{ data: BatchData | null; error: any }> {
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('*')
+    .eq('id', batchId)
+    .eq('status', BATCH_STATUS.DEAD_LETTER)
+    .maybeSingle();
+
+  return { data, error };
+}
+
+/**
+ * Put dead letters back in the queue.
+ * Whole batches reset in place; with resplitSize the ASINs go out as new batches
+ * (requeued_from = original) and the original is DISCARDED.
+ */
+export async function requeueDeadLetterBatches(
+  supabase: any,
+  batchIds: string[],
+  resplitSize?: number
+): Promise<{ data: Array<{ id: string; sellerId: string; priority: string; requeuedAs: string[] }>; error: any }> {
+  const { data: batches, error: selectError } = await supabase
+    .from('product_batches')
+    .select('*')
+    .in('id', batchIds)
+    .eq('status', BATCH_STATUS.DEAD_LETTER);
+
+  if (selectError) {
+    return { data: [], error: selectError };
+  }
+
+  const requeued: Array<{ id: string; sellerId: string; priority: string; requeuedAs: string[] }> = [];
+  const now = new Date().toISOString();
+
+  for (const batch of batches || []) {
+    const groups = planRequeue(batch.new_asins || [], resplitSize);
+
+    if (groups.length === 1) {
+      // Fresh start: the previous run's failure, retries and lease takeovers no longer apply
+      const { data: reset, error } = await supabase
+        .from('product_batches')
+        .update({
+          status: BATCH_STATUS.PENDING,
+          worker_id: null,
+          lease_expires_at: null,
+          retry_count: 0,
+          reclaim_count: 0,
+          next_attempt_at: null,
+          scheduled_for: null,
+          started_at: null,
+          completed_at: null,
+          failure_context: null,
+          error_message: null,
+          last_error_type: null,
+          dead_lettered_at: null,
+          // The key may belong to a newer enqueue by now, which the active-key unique index would reject
+          enqueue_key: null,
+          requeued_at: now,
+          updated_at: now
+        })
+        .eq('id', batch.id)
+        .eq('status', BATCH_STATUS.DEAD_LETTER)
+        .select('id');
+
+      if (error) {
+        return { data: requeued, error };
+      }
+      if (reset?.length) {
+        requeued.push({ id: batch.id, sellerId: batch.seller_id, priority: batch.priority, requeuedAs: [batch.id] });
+      }
+      continue;
+    }
+
+    // Claim the parent first so a concurrent requeue can't re-split it a second time
+    const { data: claimed, error: discardError } = await supabase
+      .from('product_batches')
+      .update({
+        status: BATCH_STATUS.DISCARDED,
+        discarded_at: now,
+        discard_reason: `Re-split into ${groups.length} batches`,
+        updated_at: now
+      })
+      .eq('id', batch.id)
+      .eq('status', BATCH_STATUS.DEAD_LETTER)
+      .select('id');
+
+    if (discardError) {
+      return { data: requeued, error: discardError };
+    }
+    if (!claimed?.length) {
+      continue;
+    }
+
+    const { data: children, error: insertError } = await supabase
+      .from('product_batches')
+      .insert(groups.map(asins => ({
+        seller_id: batch.seller_id,
+        user_id: batch.user_id,
+        requested_by_user_id: batch.requested_by_user_id,
+        product_count: asins.length,
+        new_asins: asins,
+        status: BATCH_STATUS.PENDING,
+        priority: batch.priority,
+        job_type: batch.job_type,
+        batch_type: batch.batch_type,
+        estimated_tokens: asins.length * KEEPA.TOKENS_PER_PRODUCT,
+        batch_size: asins.length,
+        batch_size_reason: `Re-split from dead letter ${batch.id}`,
+        requeued_from: batch.id,
+        requeued_at: now,
+        created_at: now,
+        updated_at: now
+      })))
+      .select('id');
+
+    if (insertError) {
+      // Put the parent back so the ASINs aren't lost - it can be requeued again
+      await supabase
+        .from('product_batches')
+        .update({ status: BATCH_STATUS.DEAD_LETTER, discarded_at: null, discard_reason: null, updated_at: now })
+        .eq('id', batch.id);
+      return { data: requeued, error: insertError };
+    }
+
+    const childIds = (children || []).map((child: any) => child.id);
+    requeued.push({ id: batch.id, sellerId: batch.seller_id, priority: batch.priority, requeuedAs: childIds });
+  }
+
+  return { data: requeued, error: null };
+}
+
+export async function discardDeadLetterBatches(
+  supabase: any,
+  batchIds: string[],
+  discardedBy: string,
+  reason?: string
+): Promise<{ data: string[]; error: any }> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('product_batches')
+    .update({
+      status: BATCH_STATUS.DISCARDED,
+      discarded_at: now,
+      discarded_by: discardedBy,
+      discard_reason: reason ?? null,
+      updated_at: now
+    })
+    .in('id', batchIds)
+    .eq('status', BATCH_STATUS.DEAD_LETTER)
+    .select('id');
+
+  return { data: (data || []).map((row: any) => row.id), error };
+}
+
 // Complex batch claiming function for Trigger.dev workers
+// PENDING work is shared weighted-fair across users (selectFairBatches) rather than seller-first
 export async function claimProductBatches(
   supabase: any,
   sellerId: string, 
   workerId: string,
-  limit: number = 3
+  limit: number = 3,
+  options?: {
+    systemTokenPercent?: number;   // Keepa bucket fill - low fill throttles heavy users
+  }
 ): Promise<BatchData[]> {
   let totalClaimed: BatchData[] = [];
   let remainingCapacity = limit;
@@ -462,9 +1380,9 @@ export async function claimProductBatches(
   while (remainingCapacity > 0 && attemptCount < maxAttempts) {
     let claimedThisRound: BatchData[] = [];
     
-    // Step 1: Try assigned seller
+    // Step 1: Fair share of pending batches (assigned seller preferred within each user)
     if (remainingCapacity > 0) {
-      const step1 = await claimAssignedSeller(supabase, sellerId, workerId, remainingCapacity);
+      const step1 = await claimFairBatches(supabase, sellerId, workerId, remainingCapacity, options?.systemTokenPercent);
       claimedThisRound.push(...step1);
       remainingCapacity -= step1.length;
     }
@@ -477,14 +1395,6 @@ export async function claimProductBatches(
       if (step2.length > 0) console.log(`🆘 Step 2: Claimed ${step2.length} orphaned batches`);
     }
     
-    // Step 3: Try cross-seller pending
-    if (remainingCapacity > 0) {
-      const step3 = await claimCrossSellerBatches(supabase, sellerId, workerId, remainingCapacity);
-      claimedThisRound.push(...step3);
-      remainingCapacity -= step3.length;
-      if (step3.length > 0) console.log(`🌍 Step 3: Claimed ${step3.length} cross-seller batches`);
-    }
-    
     totalClaimed.push(...claimedThisRound);
     
     // Exit if no work found this round
@@ -496,94 +1406,316 @@ export async function claimProductBatches(
 }
 
 // Helper functions for batch claiming
-async function claimAssignedSeller(
+async function claimFairBatches(
   supabase: any,
   sellerId: string,
   workerId: string,
-  limit: number
+  limit: number,
+  systemTokenPercent?: number
 ): Promise<BatchData[]> {
+  // Oldest claimable batches per user, so a single deep backlog can't crowd everyone else out of the pool
+  const { data: candidates, error: selectError } = await supabase
+    .rpc('fair_claim_candidates', {
+      p_per_user: CLAIMING.CANDIDATES_PER_USER,
+      p_pool: CLAIMING.CANDIDATE_POOL
+    })
+    .select('id, user_id, seller_id, priority, created_at');
+
+  if (selectError) {
+    console.error('Error selecting pending batches:', selectError);
+    return [];
+  }
+
+  if (!candidates || candidates.length === 0) {
+    return [];
+  }
+
+  const userIds = [...new Set<string>(candidates.map((c: any) => c.user_id).filter(Boolean))];
+  const userLoad = await getUserLoads(supabase, userIds);
+  const selected = selectFairBatches(candidates, limit, {
+    userLoad,
+    systemTokenPercent,
+    preferredSellerId: sellerId
+  });
+
+  if (selected.length === 0) {
+    return [];
+  }
+
+  // Re-check PENDING/unclaimed so a concurrent worker's claim wins cleanly
   const { data, error } = await supabase
     .from('product_batches')
     .update({ 
       status: BATCH_STATUS.PROCESSING,
       worker_id: workerId,
+      lease_expires_at: new Date(Date.now() + LEASE.DURATION_MS).toISOString(),
       started_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     })
-    .eq('seller_id', sellerId)
+    .in('id', selected.map(batch => batch.id))
     .eq('status', BATCH_STATUS.PENDING)
     .is('worker_id', null)
-    .order('created_at', { ascending: true })
-    .limit(limit)
     .select();
 
   if (error) {
-    console.error('Error claiming assigned seller batches:', error);
+    console.error('Error claiming fair-share batches:', error);
     return [];
   }
 
+  const claimedUsers = new Set((data || []).map((b: any) => b.user_id || 'system')).size;
+  if (data && data.length > 0) {
+    console.log(`⚖️ Step 1: Claimed ${data.length} batches across ${claimedUsers} users`);
+  }
+
   return data || [];
 }
 
+// In-flight batches and recent ledger usage per user, for fair claiming
+async function getUserLoads(
+  supabase: any,
+  userIds: string[]
+): Promise<Map<string, UserLoad>> {
+  const loads = new Map<string, UserLoad>();
+  if (userIds.length === 0) {
+    return loads;
+  }
+
+  for (const userId of userIds) {
+    loads.set(userId, { inFlight: 0, recentUsage: 0 });
+  }
+
+  const { data: processing, error: processingError } = await supabase
+    .from('product_batches')
+    .select('user_id')
+    .eq('status', BATCH_STATUS.PROCESSING)
+    .in('user_id', userIds);
+
+  if (processingError) {
+    console.warn(`⚠️ In-flight lookup failed - claiming without it: ${processingError.message}`);
+  }
+
+  for (const row of processing || []) {
+    loads.get(row.user_id)!.inFlight++;
+  }
+
+  const since = new Date(Date.now() - CLAIMING.USAGE_WINDOW_MS).toISOString();
+  const { data: usage, error: usageError } = await supabase
+    .from('token_ledger')
+    .select('user_id, tokens_consumed')
+    .in('user_id', userIds)
+    .gte('created_at', since);
+
+  if (usageError) {
+    console.warn(`⚠️ Usage lookup failed - claiming without it: ${usageError.message}`);
+  }
+
+  for (const row of usage || []) {
+    loads.get(row.user_id)!.recentUsage += row.tokens_consumed || 0;
+  }
+
+  return loads;
+}
+
+/**
+ * Reclaim PROCESSING batches whose lease expired (worker died or stalled past renewal).
+ * Each reclaim is compare-and-set on the previous holder, bumps reclaim_count and
+ * records who held the lease; a batch past LEASE.MAX_RECLAIMS is dead-lettered instead.
+ */
 async function claimOrphanedBatches(
   supabase: any,
   workerId: string,
   limit: number
 ): Promise<BatchData[]> {
-  const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+  const now = new Date().toISOString();
 
-  const { data, error } = await supabase
+  const { data: expired, error: selectError } = await supabase
     .from('product_batches')
-    .update({ 
-      status: BATCH_STATUS.PROCESSING,
-      worker_id: workerId,
-      started_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    })
+    .select('id, worker_id, reclaim_count, retry_count, lease_expires_at')
     .eq('status', BATCH_STATUS.PROCESSING)
     .not('worker_id', 'is', null)
-    .lt('started_at', tenMinutesAgo)
-    .order('started_at', { ascending: true })
-    .limit(limit)
-    .select();
+    .lt('lease_expires_at', now)
+    .order('lease_expires_at', { ascending: true })
+    .limit(limit);
 
-  if (error) {
-    console.error('Error claiming orphaned batches:', error);
+  if (selectError) {
+    console.error('Error selecting expired leases:', selectError);
     return [];
   }
 
-  return data || [];
+  const claimed: BatchData[] = [];
+  for (const batch of expired || []) {
+    const reclaims = (batch.reclaim_count || 0) + 1;
+
+    if (reclaims > LEASE.MAX_RECLAIMS) {
+      const message = `Lease expired ${reclaims} times (last holder ${batch.worker_id})`;
+      console.warn(`💀 ${message} - dead-lettering batch ${batch.id}`);
+      await deadLetterBatch(supabase, batch.id, buildFailureContext(FAILURE_STAGE.WORKER, ERROR_TYPES.HARD, message, {
+        retryCount: batch.retry_count,
+        workerId: batch.worker_id
+      }), { reclaim_count: reclaims });
+      continue;
+    }
+
+    const { data, error } = await supabase
+      .from('product_batches')
+      .update({
+        worker_id: workerId,
+        lease_expires_at: new Date(Date.now() + LEASE.DURATION_MS).toISOString(),
+        reclaim_count: reclaims,
+        reclaimed_from_worker_id: batch.worker_id,
+        started_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', batch.id)
+      .eq('status', BATCH_STATUS.PROCESSING)
+      .eq('worker_id', batch.worker_id)
+      .lt('lease_expires_at', now)
+      .select();
+
+    if (error) {
+      console.error('Error reclaiming expired lease:', error);
+      continue;
+    }
+
+    if (data && data.length > 0) {
+      console.warn(`🔁 Reclaimed batch ${batch.id} from ${batch.worker_id} (lease expired ${batch.lease_expires_at}, reclaim ${reclaims}/${LEASE.MAX_RECLAIMS})`);
+      claimed.push(data[0]);
+    }
+  }
+
+  return claimed;
 }
 
-async function claimCrossSellerBatches(
+// Heartbeat: extend the leases this worker still holds; returns the ids it renewed
+// and which of those the user has asked to cancel
+export async function renewBatchLeases(
   supabase: any,
-  sellerId: string,
-  workerId: string,
-  limit: number
-): Promise<BatchData[]> {
+  batchIds: string[],
+  workerId: string
+): Promise<{ renewed: string[]; cancelRequested: string[]; error: any }> {
+  if (batchIds.length === 0) {
+    return { renewed: [], cancelRequested: [], error: null };
+  }
+
   const { data, error } = await supabase
     .from('product_batches')
-    .update({ 
-      status: BATCH_STATUS.PROCESSING,
-      worker_id: workerId,
-      started_at: new Date().toISOString(),
+    .update({
+      lease_expires_at: new Date(Date.now() + LEASE.DURATION_MS).toISOString(),
       updated_at: new Date().toISOString()
     })
-    .eq('status', BATCH_STATUS.PENDING)
-    .neq('seller_id', sellerId)
-    .is('worker_id', null)
-    .order('created_at', { ascending: true })
-    .limit(limit)
-    .select();
+    .in('id', batchIds)
+    .eq('worker_id', workerId)
+    .eq('status', BATCH_STATUS.PROCESSING)
+    .select('id, cancel_requested_at');
 
-  if (error) {
-    console.error('Error claiming cross-seller batches:', error);
-    return [];
+  const rows = data || [];
+  return {
+    renewed: rows.map((row: any) => row.id),
+    cancelRequested: rows.filter((row: any) => row.cancel_requested_at).map((row: any) => row.id),
+    error
+  };
+}
+
+export async function insertTokenLedgerEntry(
+  supabase: any,
+  entry: TokenLedgerEntry
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('token_ledger')
+    .insert({
+      ...entry,
+      created_at: new Date().toISOString()
+    });
+
+  return { error };
+}
+
+export interface AdmissionDecisionRecord {
+  seller_id: string;
+  user_id: string | null;
+  source: string;             // 'enqueue' | 'admin_requeue' | 'confirmation'
+  priority: string;
+  admitted: boolean;
+  reason: string;
+  live_workers: number;
+  max_workers: number;
+  pending_batches: number;
+  backlog_capacity: number;
+  new_batches: number | null;
+  trigger_run_id: string | null;
+  trigger_error: string | null;
+}
+
+export async function insertAdmissionDecision(
+  supabase: any,
+  record: AdmissionDecisionRecord
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('worker_admissions')
+    .insert({
+      ...record,
+      created_at: new Date().toISOString()
+    });
+
+  return { error };
+}
+
+// One row per progress event - Supabase Realtime broadcasts the insert to subscribers
+export async function insertBatchProgressEvent(
+  supabase: any,
+  event: BatchProgressEvent
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('batch_progress')
+    .insert({
+      batch_id: event.batchId,
+      seller_id: event.sellerId,
+      user_id: event.userId,
+      event: event.event,
+      processed: event.processed,
+      failed: event.failed,
+      total: event.total,
+      progress: event.progress,
+      message: event.message,
+      created_at: new Date().toISOString()
+    });
+
+  return { error };
+}
+
+// TTL for batch_progress - subscribers only need events of runs still on screen
+export async function deleteBatchProgressBefore(
+  supabase: any,
+  before: Date
+): Promise<{ deleted: number; error: any }> {
+  const { count, error } = await supabase
+    .from('batch_progress')
+    .delete({ count: 'exact' })
+    .lt('created_at', before.toISOString());
+
+  return { deleted: count ?? 0, error };
+}
+
+// Most recent tokensLeft Keepa reported to any worker (token_ledger)
+export async function getLatestTokenObservation(
+  supabase: any
+): Promise<{ tokensLeft: number | null; observedAt: string | null; error: any }> {
+  const { data, error } = await supabase
+    .from('token_ledger')
+    .select('tokens_left, created_at')
+    .not('tokens_left', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    return { tokensLeft: null, observedAt: null, error };
   }
 
-  return data || [];
+  return { tokensLeft: data.tokens_left, observedAt: data.created_at, error: null };
 }
 
+// Actual Keepa tokens consumed on a user's behalf (token_ledger), not batch estimates
 export async function getUserTokenUsage(
   supabase: any,
   userId: string,
@@ -598,8 +1730,8 @@ export async function getUserTokenUsage(
   }
   
   const { data, error } = await supabase
-    .from('product_batches')
-    .select('estimated_tokens')
+    .from('token_ledger')
+    .select('tokens_consumed')
     .eq('user_id', userId)
     .gte('created_at', cutoff.toISOString());
   
@@ -607,14 +1739,100 @@ export async function getUserTokenUsage(
     return { usage: 0, error };
   }
   
-  const totalUsage = (data || []).reduce((sum: number, batch: any) => {
-    return sum + (batch.estimated_tokens || 0);
+  const totalUsage = (data || []).reduce((sum: number, entry: any) => {
+    return sum + (entry.tokens_consumed || 0);
   }, 0);
   
   return { usage: totalUsage, error: null };
 }
 
 
+// Keepa tokens per user since the start of the current UTC month (token_usage_daily rollup)
+export async function getMonthlyTokenUsage(
+  supabase: any,
+  userIds: string[]
+): Promise<{ usage: Map<string, number>; error: any }> {
+  const usage = new Map<string, number>(userIds.map(id => [id, 0]));
+  if (userIds.length === 0) {
+    return { usage, error: null };
+  }
+  
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  
+  const { data, error } = await supabase
+    .from('token_usage_daily')
+    .select('user_id, tokens_consumed')
+    .in('user_id', userIds)
+    .gte('usage_date', monthStart.toISOString());
+  
+  if (error) {
+    return { usage, error };
+  }
+  
+  for (const row of data || []) {
+    usage.set(row.user_id, (usage.get(row.user_id) || 0) + Number(row.tokens_consumed || 0));
+  }
+  
+  return { usage, error: null };
+}
+
+// Active plan_type per user; null when the user has no active or trialing subscription
+export async function getUserPlanTypes(
+  supabase: any,
+  userIds: string[]
+): Promise<{ plans: Map<string, string | null>; error: any }> {
+  const plans = new Map<string, string | null>(userIds.map(id => [id, null]));
+  if (userIds.length === 0) {
+    return { plans, error: null };
+  }
+  
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('user_id, plan_type, updated_at')
+    .in('user_id', userIds)
+    .in('status', PLAN.ACTIVE_STATUSES)
+    .order('updated_at', { ascending: true });
+  
+  if (error) {
+    return { plans, error };
+  }
+  
+  // Ascending order - the most recently updated subscription wins
+  for (const row of data || []) {
+    plans.set(row.user_id, row.plan_type);
+  }
+  
+  return { plans, error: null };
+}
+
+export async function getUserPlanType(
+  supabase: any,
+  userId: string
+): Promise<{ planType: string | null; error: any }> {
+  const { plans, error } = await getUserPlanTypes(supabase, [userId]);
+  return { planType: plans.get(userId) ?? null, error };
+}
+
+// How many sellers the user tracks, and whether sellerUuid is already one of them
+export async function getTrackedSellerCount(
+  supabase: any,
+  userId: string,
+  sellerUuid?: string
+): Promise<{ count: number; tracksSeller: boolean; error: any }> {
+  const { data, count, error } = await supabase
+    .from('user_sellers')
+    .select('seller_id', { count: 'exact' })
+    .eq('user_id', userId);
+  
+  if (error) {
+    return { count: 0, tracksSeller: false, error };
+  }
+  
+  const tracksSeller = !!sellerUuid && (data || []).some((row: any) => row.seller_id === sellerUuid);
+  return { count: count || 0, tracksSeller, error: null };
+}
+
 export async function getQueueStatus(
   supabase: any
 ): Promise<{ pending: number; processing: number; error: any }> {
@@ -773,13 +1991,22 @@ export async function findNewAsins(
     ...(existingProducts?.map(p => p.asin_id) || []) // Processed ASINs with full data
   ]);
   const pendingAsins = new Set(pendingBatches?.flatMap(b => b.new_asins) || []);
+
+  // Products the database recently rejected on their own would just fail again
+  const { data: poisonBatches } = await supabase
+    .from('product_batches')
+    .select('poison_asins')
+    .eq('seller_id', sellerUuid)
+    .not('poison_asins', 'is', null)
+    .gte('completed_at', new Date(Date.now() - INSERT_BISECT.POISON_SKIP_MS).toISOString());
+  const poisonAsins = new Set<string>(poisonBatches?.flatMap((b: any) => b.poison_asins.map((p: PoisonAsin) => p.asin)) || []);
   
-  // TRUE new ASINs = not in products AND not in pending batches
+  // TRUE new ASINs = not in products AND not in pending batches AND not recently poison
   const trulyNewAsins = currentAsins.filter(asin => 
-    !existingAsins.has(asin) && !pendingAsins.has(asin)
+    !existingAsins.has(asin) && !pendingAsins.has(asin) && !poisonAsins.has(asin)
   );
 
-  log(`📊 ASIN Analysis: ${existingAsins.size} existing, ${pendingAsins.size} pending, ${trulyNewAsins.length} truly new`);
+  log(`📊 ASIN Analysis: ${existingAsins.size} existing, ${pendingAsins.size} pending, ${poisonAsins.size} poison, ${trulyNewAsins.length} truly new`);
   
   return {
     existingCount: existingAsins.size,
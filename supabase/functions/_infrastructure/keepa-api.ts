@@ -1,6 +1,12 @@
-import { KEEPA, LIMITS, KEEPA_DOMAINS } from '../_domain/constants.ts';
+import { KEEPA, LIMITS, HISTORY, ERROR_TYPES } from '../_domain/constants.ts';
+import { getMarketplace, toMarketplacePrice } from '../_domain/marketplaces.ts';
+import { parseKeepaSeries, type ProductHistorySeries } from '../_domain/history.ts';
+import { getParentAsin, getVariationAttributes, type VariationAttribute } from '../_domain/variations.ts';
+import { parseKeepaOffers, summarizeOffers, getBuyBoxSellerId, type ProductOffer, type OfferSummary } from '../_domain/offers.ts';
 import { WebhookNotifier } from './discord.ts';
 import { FailureMonitor } from './failure-monitor.ts';
+import type { KeepaClient } from './keepa-client.ts';
+import { createKeepaError, toKeepaError, KeepaServerError, KeepaCancelledError, type KeepaError } from './keepa-errors.ts';
 
 // KEEPA API INTERFACES
 export interface KeepaSellerResponse {
@@ -22,6 +28,7 @@ export interface KeepaProduct {
   salesRank?: number | null;
   storefrontPrice?: number | null;  // Seller-specific price
   buyBoxPrice?: number | null;      // Separate buy box price
+  currency?: string;                // Marketplace currency (ISO 4217) for all prices
   stockCount?: number | null;
   rating?: number | null;
   ratingCount?: number | null;
@@ -30,12 +37,29 @@ export interface KeepaProduct {
   isFBA?: boolean;
   isFBM?: boolean;
   firstSeenAt?: string;
+  history?: ProductHistorySeries;   // Time series from history=1/stock=1 (seller offer + product level)
+  offers?: ProductOffer[];          // Every live offer on the listing (offers=100)
+  offerSummary?: OfferSummary;      // Competition derived from offers, relative to this seller
+  parentAsin?: string | null;       // Set on variation children only
+  variationAttributes?: VariationAttribute[];  // This child's own dimensions (colour, size, ...)
   // Debug data
   debugRawRating?: number;
   lastUpdate?: number;
   listedSince?: number;
 }
 
+// A 10-ASIN chunk that still failed after retries
+export interface FailedChunk {
+  asins: string[];
+  error: KeepaError;
+  attempts: number;
+}
+
+export interface RawProductFetchResult {
+  products: any[];
+  failedChunks: FailedChunk[];
+}
+
 // Helper function to convert Keepa timestamps (EXACT FROM ORIGINAL)
 function keepaConvertTimestamp(keepaMinutes: number): string {
   return new Date((keepaMinutes + 21564000) * 60000).toISOString();
@@ -45,21 +69,14 @@ function keepaConvertTimestamp(keepaMinutes: number): string {
 export async function fetchSellerData(
   sellerId: string,
   domain: number,
-  apiKey: string,
+  client: KeepaClient,
   requestId?: string
 ): Promise<KeepaSellerResponse | null> {
   const logPrefix = requestId ? `[${requestId}]` : '';
-  
-  if (!apiKey) {
-    console.log(`${logPrefix} ❌ Keepa API key not configured`);
-    throw new Error('Keepa API key not configured');
-  }
-
-  const url = `https://api.keepa.com/seller?key=${apiKey}&domain=${domain}&seller=${sellerId}&storefront=1`;
   const apiStart = Date.now();
   
   try {
-    const response = await fetch(url);
+    const response = await client.seller(sellerId, domain);
     const apiDuration = Date.now() - apiStart;
     
     if (!response.ok) {
@@ -69,13 +86,8 @@ export async function fetchSellerData(
       // Differentiate error types
       if (response.status === 404) {
         return null; // Seller not found - let caller handle
-      } else if (response.status === 429) {
-        throw new Error('RATE_LIMITED');
-      } else if (response.status >= 500) {
-        throw new Error('KEEPA_SERVER_ERROR');
-      } else {
-        throw new Error(`Keepa API error: ${response.status} ${response.statusText}`);
       }
+      throw createKeepaError(response.status, response.statusText, await response.text());
     }
     
     const data = await response.json();
@@ -108,189 +120,261 @@ export async function fetchSellerData(
       topBrands: sellerInfo.sellerBrandStatistics || []
     };
   } catch (error) {
-    // Let errors propagate up (EXACT FROM ORIGINAL BEHAVIOR)
-    throw error;
+    // Let errors propagate up as typed Keepa errors
+    throw toKeepaError(error);
   }
 }
 
-// FETCH PRODUCT DATA FROM KEEPA API
+// FETCH PRODUCT DATA FROM KEEPA API (strict - any failed chunk rejects the whole call)
 export async function fetchProductData(
   asins: string[],
   domain: number,
   keepaSellerID: string,
-  keepaApiKey: string,
+  client: KeepaClient,
   isDev: boolean = false
 ): Promise<KeepaProduct[]> {
-  try {
-    // Split ASINs into chunks of 10 for concurrent processing
-    const chunks: string[][] = [];
-    for (let i = 0; i < asins.length; i += LIMITS.KEEPA_API_BATCH_SIZE) {
-      chunks.push(asins.slice(i, i + LIMITS.KEEPA_API_BATCH_SIZE));
-    }
+  const { products, failedChunks } = await fetchRawProductData(asins, domain, keepaSellerID, client, isDev);
 
-    if (isDev) {
-      console.log(`🌐 Fetching Keepa data for ${asins.length} ASINs in ${chunks.length} concurrent chunks...`);
-    }
+  if (failedChunks.length > 0) {
+    throw failedChunks[0].error;
+  }
 
-    // Process all chunks concurrently
-    const chunkPromises = chunks.map(async (chunk) => {
-      const asinString = chunk.join(',');
-      const url = `${KEEPA.BASE_URL}/product?key=${keepaApiKey}&domain=${domain}&asin=${asinString}&stats=1&buybox=1&only-live-offers=0&stock=1&rating=1&offers=100&history=1`;
+  // Transform all products from concurrent chunks
+  return products.map((product: any) => transformKeepaProduct(product, keepaSellerID, domain));
+}
 
-      try {
-        const response = await fetch(url);
+// FETCH RAW PRODUCT PAYLOADS FROM KEEPA API (untransformed, shared across sellers)
+// Settles per 10-ASIN chunk: successful chunks are kept, transient failures are retried,
+// and whatever still fails is reported back instead of rejecting the whole fetch.
+export async function fetchRawProductData(
+  asins: string[],
+  domain: number,
+  keepaSellerID: string,
+  client: KeepaClient,
+  isDev: boolean = false,
+  signal?: AbortSignal
+): Promise<RawProductFetchResult> {
+  // Split ASINs into chunks of 10 for concurrent processing
+  const chunks: string[][] = [];
+  for (let i = 0; i < asins.length; i += LIMITS.KEEPA_API_BATCH_SIZE) {
+    chunks.push(asins.slice(i, i + LIMITS.KEEPA_API_BATCH_SIZE));
+  }
 
-        if (!response.ok) {
-          await FailureMonitor.recordFailure('Keepa');
-          const responseText = await response.text();
-          console.log(`🔍 KEEPA ERROR BODY: ${responseText}`);
-          const errorMsg = `Keepa API error: ${response.status} ${response.statusText} - ${responseText}`;
-          throw new Error(errorMsg);
-        }
+  if (isDev) {
+    console.log(`🌐 Fetching Keepa data for ${asins.length} ASINs in ${chunks.length} concurrent chunks...`);
+  }
 
-        const data = await response.json();
-      
-      FailureMonitor.recordSuccess('Keepa');
-
-      // Log token warnings  
-      if (data.products?.length === 0 || data.tokensLeft < 1000) {
-        console.log(`⚠️ Keepa: ${data.products?.length || 0} products, ${data.tokensLeft} tokens left`);
-        
-        // Webhook alert for low tokens (EXACT FROM ORIGINAL)
-        if (data.tokensLeft < 1000) {
-          WebhookNotifier.alert(`Keepa tokens low: ${data.tokensLeft} remaining`);
-        }
+  const products: any[] = [];
+  const failedChunks: FailedChunk[] = [];
+  let pending = chunks;
+
+  for (let attempt = 1; pending.length > 0; attempt++) {
+    // Queue all chunks - the client's scheduler bounds concurrency and token spend
+    const settled = await Promise.allSettled(
+      pending.map(chunk => fetchProductChunk(chunk, domain, keepaSellerID, client, signal))
+    );
+
+    const retryChunks: string[][] = [];
+    settled.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        products.push(...result.value);
+        return;
       }
 
-      // Log seller offer warnings
-      if (data.products && data.products.length > 0) {
-        const firstProduct = data.products[0];
-        const sellerOffer = firstProduct.offers?.find((offer: any) => offer.sellerId === keepaSellerID);
-        
-        if (!sellerOffer) {
-          console.log(`⚠️ No seller offer found for ${keepaSellerID} (${firstProduct.offers?.length || 0} offers available)`);
-        }
+      const error = toKeepaError(result.reason);
+      if (error.errorType === ERROR_TYPES.TRANSIENT && attempt <= LIMITS.KEEPA_CHUNK_RETRIES) {
+        retryChunks.push(pending[index]);
       } else {
-        console.log(`⚠️ No products returned for ASINs: ${asinString}`);
+        failedChunks.push({ asins: pending[index], error, attempts: attempt });
       }
+    });
 
-      if (!data.products || !Array.isArray(data.products)) {
-        console.log(`🔍 INVALID RESPONSE FORMAT:`, { dataKeys: Object.keys(data), dataType: typeof data });
-        throw new Error('Invalid Keepa API response format');
-      }
+    if (retryChunks.length > 0) {
+      console.log(`🔁 Retrying ${retryChunks.length} failed Keepa chunks (attempt ${attempt + 1})`);
+      await new Promise(resolve => setTimeout(resolve, LIMITS.KEEPA_CHUNK_RETRY_DELAY_MS * attempt));
+    }
 
-      return data.products;
-    } catch (error: any) {
+    pending = retryChunks;
+  }
+
+  if (isDev) {
+    console.log(`✅ Received ${products.length} products from ${chunks.length} concurrent Keepa requests`);
+  }
+
+  if (failedChunks.length > 0) {
+    const failedAsinCount = failedChunks.reduce((sum, c) => sum + c.asins.length, 0);
+    console.error(`❌ Keepa API fetch failed for ${failedAsinCount}/${asins.length} ASINs in ${failedChunks.length} chunks`);
+  }
+
+  return { products, failedChunks };
+}
+
+// Single 10-ASIN Keepa request
+async function fetchProductChunk(
+  chunk: string[],
+  domain: number,
+  keepaSellerID: string,
+  client: KeepaClient,
+  signal?: AbortSignal
+): Promise<any[]> {
+  const asinString = chunk.join(',');
+
+  try {
+    const response = await client.product(chunk, domain, signal);
+
+    if (!response.ok) {
       await FailureMonitor.recordFailure('Keepa');
-      const debugUrl = url.replace(keepaApiKey, '***MASKED***');
-      console.error(`❌ Keepa API chunk failed for ASINs [${asinString}]: ${error.message}`);
-      console.error(`❌ URL was: ${debugUrl}`);
-      throw error;
+      const responseText = await response.text();
+      console.log(`🔍 KEEPA ERROR BODY: ${responseText}`);
+      throw createKeepaError(response.status, response.statusText, responseText, chunk);
     }
-    });
 
-    // Wait for all concurrent chunks to complete
-    const allChunkResults = await Promise.all(chunkPromises);
+    const data = await response.json();
+
+    FailureMonitor.recordSuccess('Keepa');
 
-    // Flatten results from all chunks
-    const allProducts = allChunkResults.flat();
+    // Log token warnings  
+    if (data.products?.length === 0 || data.tokensLeft < 1000) {
+      console.log(`⚠️ Keepa: ${data.products?.length || 0} products, ${data.tokensLeft} tokens left`);
 
-    if (isDev) {
-      console.log(`✅ Received ${allProducts.length} products from ${chunks.length} concurrent Keepa requests`);
+      // Webhook alert for low tokens (EXACT FROM ORIGINAL)
+      if (data.tokensLeft < 1000) {
+        WebhookNotifier.alert(`Keepa tokens low: ${data.tokensLeft} remaining`);
+      }
     }
 
-    // Transform all products from concurrent chunks
-    const transformedProducts = allProducts.map((product: any): KeepaProduct => {
-      // OPTIMIZED: Check first offer first (90% of cases), then fallback to find()
-      const sellerOffer = product.offers?.[0]?.sellerId === keepaSellerID 
-        ? product.offers[0] 
-        : product.offers?.find((offer: any) => offer.sellerId === keepaSellerID);
-      const offerCSV = sellerOffer?.offerCSV;
-      const stockCSV = sellerOffer?.stockCSV;
-      const statsArray = product.stats?.current;
-      const categoryTree = product.categoryTree?.[0];
-      const categoryId = categoryTree?.catId?.toString();
-      const isPrime = sellerOffer?.isPrime ?? false;
-      
-      // Extract seller-specific storefront price
-      const storefrontPrice = (offerCSV && offerCSV.length >= 2) 
-        ? offerCSV[1] / 100 
-        : null;
-      
-      // Extract buy box price (different from storefront price)
-      let buyBoxPrice: number | null = null;
-      if (product.stats?.buyBoxPrice) {
-        buyBoxPrice = product.stats.buyBoxPrice / 100;
-      } else if (product.buyBoxPrice && product.buyBoxPrice.length > 0) {
-        const lastEntry = product.buyBoxPrice[product.buyBoxPrice.length - 1];
-        buyBoxPrice = lastEntry[1] / 100;
+    // Log seller offer warnings
+    if (data.products && data.products.length > 0) {
+      const firstProduct = data.products[0];
+      const sellerOffer = firstProduct.offers?.find((offer: any) => offer.sellerId === keepaSellerID);
+
+      if (!sellerOffer) {
+        console.log(`⚠️ No seller offer found for ${keepaSellerID} (${firstProduct.offers?.length || 0} offers available)`);
       }
-      
-      // Determine FBA/FBM status
-      const isFBA = isPrime;
-      const isFBM = !isPrime;
-      
-      // Extract monthly sales
-      const monthlySold = (product.monthlySold !== undefined && product.monthlySold !== null) ? product.monthlySold : null;
-      
-      // Extract first seen date
-      const firstSeenAt = (offerCSV && offerCSV.length > 0) 
-        ? keepaConvertTimestamp(offerCSV[0]) 
-        : null;
-      
-      // Extract stock count
-      const stockCount = (stockCSV && stockCSV.length >= 2) 
-        ? stockCSV[1] 
-        : (product.stockCount !== undefined ? product.stockCount : null);
-      
-      // Inline sales rank extraction using correct Keepa format
-      const salesRank = (categoryId && product.salesRanks?.[categoryId]?.slice(-1)[0]) ?? null;
-
-      // Inline rating transformation
-      const rawRating = statsArray?.[16];
-      const rating = (rawRating === undefined || rawRating === null || rawRating <= 0) 
-        ? -1 
-        : Math.min(Math.max(rawRating / 10, 1), 5);
-
-      // Inline rating count transformation
-      const rawRatingCount = statsArray?.[17];
-      const ratingCount = (rawRatingCount === undefined || rawRatingCount === null || rawRatingCount <= 0)
-        ? -1
-        : Math.min(rawRatingCount, 2147483647);
-
-      return {
-        asin: product.asin,
-        title: product.title,
-        brand: product.brand,
-        category: categoryTree?.name,
-        salesRank: salesRank,
-        storefrontPrice: storefrontPrice, // Seller-specific price
-        buyBoxPrice: buyBoxPrice,         // Separate buy box price
-        stockCount: stockCount,
-        rating: rating,
-        ratingCount: ratingCount,
-        monthlySold: monthlySold ?? undefined,
-        imagesCSV: product.imagesCSV || '',
-        isFBA: isFBA,
-        isFBM: isFBM,
-        firstSeenAt: firstSeenAt ?? undefined,
-        debugRawRating: rawRating, // Add debug field
-        lastUpdate: product.lastUpdate,
-        listedSince: product.listedSince,
-      };
-    });
+    } else {
+      console.log(`⚠️ No products returned for ASINs: ${asinString}`);
+    }
 
-    return transformedProducts;
+    if (!data.products || !Array.isArray(data.products)) {
+      console.log(`🔍 INVALID RESPONSE FORMAT:`, { dataKeys: Object.keys(data), dataType: typeof data });
+      throw new KeepaServerError('Invalid Keepa API response format', response.status);
+    }
 
+    return data.products;
   } catch (error: any) {
-    // Log API failures with context for debugging (COPIED FROM ORIGINAL)
-    console.error(`❌ Keepa API fetch failed for ${asins.length} ASINs: ${error.message}`);
-    
-    // Re-throw to be handled by calling function (COPIED FROM ORIGINAL)
-    throw error;
+    // Cancelled before sending - Keepa itself is fine
+    if (error instanceof KeepaCancelledError) {
+      throw error;
+    }
+
+    await FailureMonitor.recordFailure('Keepa');
+    console.error(`❌ Keepa API chunk failed for ASINs [${asinString}]: ${error.message}`);
+    console.error(`❌ Request was: domain=${domain} asins=${asinString}`);
+    throw toKeepaError(error);
   }
 }
 
+// TRANSFORM RAW KEEPA PRODUCT INTO THE SELLER-SPECIFIC VIEW
+export function transformKeepaProduct(product: any, keepaSellerID: string, domain: number): KeepaProduct {
+  const { currency, priceDivisor } = getMarketplace(domain);
+
+  // OPTIMIZED: Check first offer first (90% of cases), then fallback to find()
+  const sellerOffer = product.offers?.[0]?.sellerId === keepaSellerID 
+    ? product.offers[0] 
+    : product.offers?.find((offer: any) => offer.sellerId === keepaSellerID);
+  const offerCSV = sellerOffer?.offerCSV;
+  const stockCSV = sellerOffer?.stockCSV;
+  const statsArray = product.stats?.current;
+  const categoryTree = product.categoryTree?.[0];
+  const categoryId = categoryTree?.catId?.toString();
+  const isPrime = sellerOffer?.isPrime ?? false;
+  
+  // Extract seller-specific storefront price
+  const storefrontPrice = (offerCSV && offerCSV.length >= 2) 
+    ? toMarketplacePrice(offerCSV[1], domain) 
+    : null;
+  
+  // Extract buy box price (different from storefront price)
+  let buyBoxPrice: number | null = null;
+  if (product.stats?.buyBoxPrice) {
+    buyBoxPrice = toMarketplacePrice(product.stats.buyBoxPrice, domain);
+  } else if (product.buyBoxPrice && product.buyBoxPrice.length > 0) {
+    const lastEntry = product.buyBoxPrice[product.buyBoxPrice.length - 1];
+    buyBoxPrice = toMarketplacePrice(lastEntry[1], domain);
+  }
+  
+  // Determine FBA/FBM status
+  const isFBA = isPrime;
+  const isFBM = !isPrime;
+  
+  // Extract monthly sales
+  const monthlySold = (product.monthlySold !== undefined && product.monthlySold !== null) ? product.monthlySold : null;
+  
+  // Extract first seen date
+  const firstSeenAt = (offerCSV && offerCSV.length > 0) 
+    ? keepaConvertTimestamp(offerCSV[0]) 
+    : null;
+  
+  // Extract stock count
+  const stockCount = (stockCSV && stockCSV.length >= 2) 
+    ? stockCSV[1] 
+    : (product.stockCount !== undefined ? product.stockCount : null);
+  
+  // Inline sales rank extraction using correct Keepa format
+  const salesRank = (categoryId && product.salesRanks?.[categoryId]?.slice(-1)[0]) ?? null;
+
+  // Inline rating transformation
+  const rawRating = statsArray?.[16];
+  const rating = (rawRating === undefined || rawRating === null || rawRating <= 0) 
+    ? -1 
+    : Math.min(Math.max(rawRating / 10, 1), 5);
+
+  // Inline rating count transformation
+  const rawRatingCount = statsArray?.[17];
+  const ratingCount = (rawRatingCount === undefined || rawRatingCount === null || rawRatingCount <= 0)
+    ? -1
+    : Math.min(rawRatingCount, 2147483647);
+
+  // History series we already pay for (history=1, buybox=1, stock=1)
+  const history: ProductHistorySeries = {
+    storefrontPrice: parseKeepaSeries(offerCSV, { stride: 3, divisor: priceDivisor }),
+    buyBoxPrice: parseKeepaSeries(product.csv?.[HISTORY.KEEPA_CSV_BUY_BOX], { stride: 3, divisor: priceDivisor }),
+    salesRank: parseKeepaSeries(categoryId ? product.salesRanks?.[categoryId] : null),
+    stock: parseKeepaSeries(stockCSV),
+  };
+
+  // Competitor offers we already pay for (offers=100)
+  const offers = parseKeepaOffers(product, domain);
+  const offerSummary = summarizeOffers(offers, keepaSellerID, getBuyBoxSellerId(product));
+
+  return {
+    asin: product.asin,
+    title: product.title,
+    brand: product.brand,
+    category: categoryTree?.name,
+    salesRank: salesRank,
+    storefrontPrice: storefrontPrice, // Seller-specific price
+    buyBoxPrice: buyBoxPrice,         // Separate buy box price
+    currency: currency,               // Currency of every price field above
+    stockCount: stockCount,
+    rating: rating,
+    ratingCount: ratingCount,
+    monthlySold: monthlySold ?? undefined,
+    imagesCSV: product.imagesCSV || '',
+    isFBA: isFBA,
+    isFBM: isFBM,
+    firstSeenAt: firstSeenAt ?? undefined,
+    history: history,
+    offers: offers,
+    offerSummary: offerSummary,
+    parentAsin: getParentAsin(product),
+    variationAttributes: getVariationAttributes(product),
+    debugRawRating: rawRating, // Add debug field
+    lastUpdate: product.lastUpdate,
+    listedSince: product.listedSince,
+  };
+}
+
 // Export helper functions for similar sellers and top brands
 export function extractSimilarSellers(response: KeepaSellerResponse, _sellerId: string): Array<{percent: number, sellerId: string}> {
   return response.similarSellers || [];
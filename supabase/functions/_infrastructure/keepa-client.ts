@@ -0,0 +1,80 @@
+import { KEEPA } from '../_domain/constants.ts';
+import { FakeKeepaClient } from './keepa-fake.ts';
+import { KeepaScheduler, ScheduledKeepaClient } from './keepa-scheduler.ts';
+import { KeepaInvalidKeyError, KeepaNetworkError } from './keepa-errors.ts';
+
+// Universal env lookup - works in Deno + Node.js
+declare const Deno: any;
+
+function getEnv(name: string): string | undefined {
+  return typeof Deno !== 'undefined' ? Deno.env.get(name) : process.env[name];
+}
+
+/**
+ * Transport used by fetchSellerData / fetchProductData.
+ * Implementations return the raw Keepa HTTP response so parsing, token
+ * warnings and error handling stay in one place (keepa-api.ts).
+ */
+export interface KeepaClient {
+  seller(sellerId: string, domain: number): Promise<Response>;
+  // signal: aborting drops requests that have not reached Keepa yet
+  product(asins: string[], domain: number, signal?: AbortSignal): Promise<Response>;
+}
+
+// Live client - calls api.keepa.com
+export class HttpKeepaClient implements KeepaClient {
+  constructor(private apiKey: string, private baseUrl: string = KEEPA.BASE_URL) {}
+
+  async seller(sellerId: string, domain: number): Promise<Response> {
+    return await this.get(`/seller?key=${this.apiKey}&domain=${domain}&seller=${sellerId}&storefront=1`);
+  }
+
+  async product(asins: string[], domain: number): Promise<Response> {
+    const asinString = asins.join(',');
+    return await this.get(`/product?key=${this.apiKey}&domain=${domain}&asin=${asinString}&stats=1&buybox=1&only-live-offers=0&stock=1&rating=1&offers=100&history=1`);
+  }
+
+  private async get(path: string): Promise<Response> {
+    if (!this.apiKey) {
+      console.log(`❌ Keepa API key not configured`);
+      throw new KeepaInvalidKeyError('Keepa API key not configured');
+    }
+
+    try {
+      return await fetch(`${this.baseUrl}${path}`);
+    } catch (error) {
+      // DNS failures, resets, timeouts - never includes the key in the message
+      const message = error instanceof Error ? error.message : String(error);
+      throw new KeepaNetworkError(`Keepa network error: ${message}`);
+    }
+  }
+}
+
+/**
+ * Resolve the Keepa client for the current environment.
+ * KEEPA_FIXTURES_PATH switches every caller to the offline fixture client.
+ * Every client goes through the process's token-aware scheduler; maxWaitMs bounds
+ * how long a caller will sit paused (edge functions can't wait out a refill), and a
+ * service-role supabase client lets the scheduler see other processes' token_ledger reads.
+ */
+export function createKeepaClient(
+  apiKey: string = getEnv('KEEPA_API_KEY') || '',
+  options?: { maxWaitMs?: number; supabase?: any }
+): KeepaClient {
+  const fixturesPath = getEnv('KEEPA_FIXTURES_PATH');
+  let client: KeepaClient;
+
+  if (fixturesPath) {
+    console.log(`🧪 Using offline Keepa fixtures: ${fixturesPath}`);
+    client = new FakeKeepaClient(fixturesPath);
+  } else {
+    client = new HttpKeepaClient(apiKey);
+  }
+
+  const scheduler = KeepaScheduler.getInstance();
+  if (options?.supabase) {
+    scheduler.useSharedState(options.supabase);
+  }
+
+  return new ScheduledKeepaClient(client, scheduler, options?.maxWaitMs);
+}
@@ -0,0 +1,176 @@
+import { ERROR_TYPES, KEEPA, KEEPA_ERROR_KIND, TRANSIENT_KEEPA_ERRORS } from '../_domain/constants.ts';
+
+export type KeepaErrorKind = typeof KEEPA_ERROR_KIND[keyof typeof KEEPA_ERROR_KIND];
+
+/**
+ * Base class for every failure coming out of the Keepa layer.
+ * Callers decide retry / fallback from `kind` and `errorType`, never from message text.
+ */
+export class KeepaError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: KeepaErrorKind,
+    public readonly statusCode?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'KeepaError';
+  }
+
+  get errorType(): 'TRANSIENT' | 'HARD' {
+    return TRANSIENT_KEEPA_ERRORS.includes(this.kind) ? ERROR_TYPES.TRANSIENT : ERROR_TYPES.HARD;
+  }
+}
+
+export class KeepaRateLimitError extends KeepaError {
+  constructor(message: string, retryAfterMs: number = KEEPA.REFILL_INTERVAL_MS, statusCode?: number) {
+    super(message, KEEPA_ERROR_KIND.RATE_LIMITED, statusCode, retryAfterMs);
+    this.name = 'KeepaRateLimitError';
+  }
+}
+
+export class KeepaInvalidKeyError extends KeepaError {
+  constructor(message: string, statusCode?: number) {
+    super(message, KEEPA_ERROR_KIND.INVALID_KEY, statusCode);
+    this.name = 'KeepaInvalidKeyError';
+  }
+}
+
+export class KeepaInvalidAsinError extends KeepaError {
+  constructor(message: string, public readonly asins: string[] = [], statusCode: number = 400) {
+    super(message, KEEPA_ERROR_KIND.INVALID_ASIN, statusCode);
+    this.name = 'KeepaInvalidAsinError';
+  }
+}
+
+export class KeepaInvalidRequestError extends KeepaError {
+  constructor(message: string, statusCode?: number) {
+    super(message, KEEPA_ERROR_KIND.INVALID_REQUEST, statusCode);
+    this.name = 'KeepaInvalidRequestError';
+  }
+}
+
+export class KeepaPaymentRequiredError extends KeepaError {
+  constructor(message: string, statusCode: number = 402) {
+    super(message, KEEPA_ERROR_KIND.PAYMENT_REQUIRED, statusCode);
+    this.name = 'KeepaPaymentRequiredError';
+  }
+}
+
+export class KeepaServerError extends KeepaError {
+  constructor(message: string, statusCode?: number, retryAfterMs: number = 30000) {
+    super(message, KEEPA_ERROR_KIND.SERVER_ERROR, statusCode, retryAfterMs);
+    this.name = 'KeepaServerError';
+  }
+}
+
+export class KeepaNetworkError extends KeepaError {
+  constructor(message: string, retryAfterMs: number = 5000) {
+    super(message, KEEPA_ERROR_KIND.NETWORK, undefined, retryAfterMs);
+    this.name = 'KeepaNetworkError';
+  }
+}
+
+// Thrown before a queued request reaches Keepa because its batch was cancelled (no tokens spent)
+export class KeepaCancelledError extends KeepaError {
+  constructor(message: string = 'Keepa request cancelled') {
+    super(message, KEEPA_ERROR_KIND.CANCELLED);
+    this.name = 'KeepaCancelledError';
+  }
+}
+
+// Build a typed error from a non-OK Keepa HTTP response
+export function createKeepaError(
+  status: number,
+  statusText: string,
+  bodyText: string,
+  asins: string[] = []
+): KeepaError {
+  let body: any = null;
+  try {
+    body = JSON.parse(bodyText);
+  } catch {
+    // Keepa occasionally returns plain text / HTML error pages
+  }
+
+  const detail = `${body?.error?.type || ''} ${body?.error?.message || ''}`.toLowerCase();
+  const message = `Keepa API error: ${status} ${statusText} - ${bodyText}`;
+
+  if (status === 429) {
+    const retryAfterMs = typeof body?.refillIn === 'number' ? body.refillIn : KEEPA.REFILL_INTERVAL_MS;
+    return new KeepaRateLimitError(message, retryAfterMs, status);
+  }
+
+  if (status === 402) {
+    return new KeepaPaymentRequiredError(message, status);
+  }
+
+  if (status === 401 || status === 403 || detail.includes('key')) {
+    return new KeepaInvalidKeyError(message, status);
+  }
+
+  if (status >= 500) {
+    return new KeepaServerError(message, status);
+  }
+
+  if (detail.includes('asin')) {
+    return new KeepaInvalidAsinError(message, asins, status);
+  }
+
+  return new KeepaInvalidRequestError(message, status);
+}
+
+// Connection-level failures from fetch / response bodies (Deno and Node spellings)
+const NETWORK_ERROR_NAMES = ['AbortError', 'TimeoutError', 'ConnectionReset', 'ConnectionRefused', 'ConnectionAborted', 'TimedOut', 'Interrupted', 'UnexpectedEof'];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+const FETCH_FAILURE_MESSAGE = /fetch failed|failed to fetch|error sending request|connection (closed|reset|refused)|network/i;
+
+function isNetworkFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as { code?: string }).code ?? (error.cause as { code?: string } | undefined)?.code;
+  return NETWORK_ERROR_NAMES.includes(error.name) ||
+    (!!code && NETWORK_ERROR_CODES.includes(code)) ||
+    (error instanceof TypeError && FETCH_FAILURE_MESSAGE.test(error.message));
+}
+
+// Normalize anything thrown by the Keepa layer into a KeepaError - only real network failures are
+// TRANSIENT, anything else (bad JSON handling, transform bugs) is UNEXPECTED and HARD
+export function toKeepaError(error: unknown): KeepaError {
+  if (error instanceof KeepaError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (isNetworkFailure(error)) {
+    return new KeepaNetworkError(`Keepa network error: ${message}`);
+  }
+  return new KeepaError(`Keepa unexpected error: ${message}`, KEEPA_ERROR_KIND.UNEXPECTED);
+}
+
+// Errors that will fail every request on this key until someone fixes billing/config
+export function isAccountWideKeepaError(kind?: string): boolean {
+  return kind === KEEPA_ERROR_KIND.INVALID_KEY || kind === KEEPA_ERROR_KIND.PAYMENT_REQUIRED;
+}
+
+/**
+ * Trigger.dev handleError decision for Keepa failures:
+ * HARD errors skip retrying, rate limits retry after the bucket refills,
+ * anything else falls through to the task's retry config.
+ */
+export function keepaRetryDecision(error: unknown): { skipRetrying: true } | { retryAt: Date } | undefined {
+  if (!(error instanceof KeepaError)) {
+    return undefined;
+  }
+
+  if (error.errorType === ERROR_TYPES.HARD) {
+    return { skipRetrying: true };
+  }
+
+  if (error.retryAfterMs !== undefined) {
+    return { retryAt: new Date(Date.now() + error.retryAfterMs) };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,128 @@
+import { KEEPA } from '../_domain/constants.ts';
+import type { KeepaClient } from './keepa-client.ts';
+
+// Recorded Keepa payloads keyed by `${domain}:${id}`
+export interface KeepaFixtures {
+  tokensLeft?: number;
+  refillRate?: number;
+  sellers?: Record<string, any>;
+  products?: Record<string, any>;
+  // Forced error responses keyed by `seller:${domain}:${sellerId}` or `product:${domain}:${asin}`
+  errors?: Record<string, { status: number; body?: any }>;
+}
+
+/**
+ * Offline Keepa client serving recorded fixtures.
+ * Mimics Keepa's token bucket (tokensLeft / tokensConsumed / refillIn) and
+ * answers 429 when a request costs more than the bucket holds.
+ */
+export class FakeKeepaClient implements KeepaClient {
+  private fixtures: KeepaFixtures | null = null;
+  private tokensLeft = 0;
+  private refillRate = 0;
+  private lastRefill = Date.now();
+
+  constructor(private source: KeepaFixtures | string) {
+    if (typeof source !== 'string') {
+      this.init(source);
+    }
+  }
+
+  async seller(sellerId: string, domain: number): Promise<Response> {
+    const fixtures = await this.load();
+
+    const forced = fixtures.errors?.[`seller:${domain}:${sellerId}`];
+    if (forced) {
+      return this.respond(forced.status, forced.body ?? {}, 0);
+    }
+
+    if (!this.consume(KEEPA.TOKENS_PER_SELLER)) {
+      return this.rateLimited();
+    }
+
+    const seller = fixtures.sellers?.[`${domain}:${sellerId}`];
+
+    // Keepa answers 200 with an empty sellers map for unknown sellers
+    return this.respond(200, { sellers: seller ? { [sellerId]: seller } : {} }, KEEPA.TOKENS_PER_SELLER);
+  }
+
+  async product(asins: string[], domain: number): Promise<Response> {
+    const fixtures = await this.load();
+
+    for (const asin of asins) {
+      const forced = fixtures.errors?.[`product:${domain}:${asin}`];
+      if (forced) {
+        return this.respond(forced.status, forced.body ?? {}, 0);
+      }
+    }
+
+    const cost = asins.length * KEEPA.TOKENS_PER_PRODUCT;
+    if (!this.consume(cost)) {
+      return this.rateLimited();
+    }
+
+    const products = asins
+      .map(asin => fixtures.products?.[`${domain}:${asin}`])
+      .filter(Boolean);
+
+    return this.respond(200, { products }, cost);
+  }
+
+  // Current simulated bucket - useful for assertions in offline runs
+  getTokensLeft(): number {
+    this.refill();
+    return this.tokensLeft;
+  }
+
+  private async load(): Promise<KeepaFixtures> {
+    if (!this.fixtures) {
+      const { readFile } = await import('node:fs/promises');
+      this.init(JSON.parse(await readFile(this.source as string, 'utf8')));
+    }
+    return this.fixtures!;
+  }
+
+  private init(fixtures: KeepaFixtures): void {
+    this.fixtures = fixtures;
+    this.tokensLeft = fixtures.tokensLeft ?? KEEPA.BUCKET_SIZE;
+    this.refillRate = fixtures.refillRate ?? KEEPA.REGEN_RATE;
+    this.lastRefill = Date.now();
+  }
+
+  private refill(): void {
+    const elapsedMinutes = Math.floor((Date.now() - this.lastRefill) / 60000);
+    if (elapsedMinutes > 0) {
+      this.tokensLeft = Math.min(KEEPA.BUCKET_SIZE, this.tokensLeft + elapsedMinutes * this.refillRate);
+      this.lastRefill += elapsedMinutes * 60000;
+    }
+  }
+
+  private consume(cost: number): boolean {
+    this.refill();
+    if (this.tokensLeft < cost) {
+      return false;
+    }
+    this.tokensLeft -= cost;
+    return true;
+  }
+
+  private rateLimited(): Response {
+    return this.respond(429, { error: { type: 'tokens', message: 'Not enough tokens' } }, 0);
+  }
+
+  private respond(status: number, body: any, tokensConsumed: number): Response {
+    const payload = {
+      timestamp: Date.now(),
+      tokensLeft: this.tokensLeft,
+      refillIn: 60000 - ((Date.now() - this.lastRefill) % 60000),
+      refillRate: this.refillRate,
+      tokensConsumed,
+      ...body
+    };
+
+    return new Response(JSON.stringify(payload), {
+      status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
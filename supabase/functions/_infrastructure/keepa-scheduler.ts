@@ -0,0 +1,213 @@
+import { KEEPA, LIMITS } from '../_domain/constants.ts';
+import { projectTokens, calculateTokenWaitMs, getTokenFillPercentage } from '../_domain/tokens.ts';
+import type { KeepaClient } from './keepa-client.ts';
+import { KeepaRateLimitError, KeepaCancelledError } from './keepa-errors.ts';
+import { getLatestTokenObservation } from './database.ts';
+
+/**
+ * Keepa request scheduler, one per process (edge isolate or Trigger worker).
+ * - Caps concurrent Keepa requests of this process (KEEPA.MAX_CONCURRENT_REQUESTS)
+ * - Tracks the live bucket from tokensLeft / refillIn / refillRate on every response
+ * - With a shared source (useSharedState), adopts any newer tokensLeft another process
+ *   recorded in token_ledger, so every process budgets against the one Keepa bucket
+ * - Pauses before a request would take the bucket below LIMITS.MIN_TOKENS and
+ *   resumes once enough refills (KEEPA.REGEN_RATE per minute) have landed
+ * Processes still don't see each other's in-flight requests between observations;
+ * the MIN_TOKENS reserve covers that overlap.
+ */
+export class KeepaScheduler {
+  private static shared: KeepaScheduler | null = null;
+
+  private active = 0;
+  private waiters: Array<() => void> = [];
+  private reserved = 0; // Tokens committed by in-flight requests
+
+  // Last observed bucket state (null until the first Keepa response)
+  private tokensLeft: number | null = null;
+  private observedAt = 0;
+  private refillIn: number = KEEPA.REFILL_INTERVAL_MS;
+  private refillRate: number = KEEPA.REGEN_RATE;
+
+  private sharedSource: any = null;   // Supabase client for token_ledger
+  private sharedCheckedAt = 0;
+
+  constructor(
+    private maxConcurrency: number = KEEPA.MAX_CONCURRENT_REQUESTS,
+    private minTokens: number = LIMITS.MIN_TOKENS
+  ) {}
+
+  static getInstance(): KeepaScheduler {
+    if (!this.shared) {
+      this.shared = new KeepaScheduler();
+    }
+    return this.shared;
+  }
+
+  useSharedState(supabase: any): void {
+    this.sharedSource = supabase;
+  }
+
+  async run(
+    cost: number,
+    request: () => Promise<Response>,
+    options: { maxWaitMs?: number; reserve?: number; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const { maxWaitMs = Infinity, reserve = this.minTokens, signal } = options;
+
+    await this.acquireSlot();
+    try {
+      await this.waitForTokens(cost, reserve, maxWaitMs);
+
+      // Cancelled while queued for a slot or tokens - in-flight requests still finish
+      if (signal?.aborted) {
+        throw new KeepaCancelledError(`Keepa request cancelled before sending (${cost} tokens not spent)`);
+      }
+
+      this.reserved += cost;
+      try {
+        const response = await request();
+        await this.observe(response);
+        return response;
+      } finally {
+        this.reserved -= cost;
+      }
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  // Projected tokens available right now (null = unknown)
+  getAvailableTokens(): number | null {
+    if (this.tokensLeft === null) {
+      return null;
+    }
+    return projectTokens(this.tokensLeft, this.observedAt, this.refillIn, this.refillRate) - this.reserved;
+  }
+
+  private async waitForTokens(cost: number, reserve: number, maxWaitMs: number): Promise<void> {
+    const waitStart = Date.now();
+
+    while (true) {
+      await this.syncSharedState();
+      const available = this.getAvailableTokens();
+
+      // Nothing observed by any process yet - let it through to learn the bucket
+      if (available === null || available - cost >= reserve) {
+        return;
+      }
+
+      const deficit = reserve + cost - available;
+      const waitMs = calculateTokenWaitMs(deficit, this.observedAt, this.refillIn, this.refillRate);
+      const waitedMs = Date.now() - waitStart;
+
+      if (waitedMs + waitMs > maxWaitMs) {
+        throw new KeepaRateLimitError(
+          `Keepa rate limit: ${available} tokens left, need ${cost} above ${reserve} reserve (resume in ${Math.ceil(waitMs / 1000)}s)`,
+          waitMs // No status code - paused locally, Keepa was never called
+        );
+      }
+
+      console.log(`⏸️ Keepa scheduler paused: ${available} tokens left, need ${cost} above ${reserve} reserve - resuming in ${Math.ceil(waitMs / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+
+  // Adopt the latest bucket state any process recorded, when it's newer than our own
+  private async syncSharedState(): Promise<void> {
+    if (!this.sharedSource || Date.now() - this.sharedCheckedAt < KEEPA.SHARED_STATE_SYNC_MS) {
+      return;
+    }
+    this.sharedCheckedAt = Date.now();
+
+    const { tokensLeft, observedAt, error } = await getLatestTokenObservation(this.sharedSource);
+    if (error || tokensLeft === null || !observedAt) {
+      return;
+    }
+
+    const sharedAt = new Date(observedAt).getTime();
+    if (sharedAt > this.observedAt) {
+      // Refill timing isn't stored - assume a full interval until the next refill (conservative)
+      this.tokensLeft = tokensLeft;
+      this.observedAt = sharedAt;
+      this.refillIn = KEEPA.REFILL_INTERVAL_MS;
+      this.refillRate = KEEPA.REGEN_RATE;
+    }
+  }
+
+  private async observe(response: Response): Promise<void> {
+    try {
+      const data = await response.clone().json();
+      if (typeof data.tokensLeft === 'number') {
+        this.tokensLeft = data.tokensLeft;
+        this.observedAt = Date.now();
+        this.refillIn = typeof data.refillIn === 'number' ? data.refillIn : KEEPA.REFILL_INTERVAL_MS;
+        this.refillRate = typeof data.refillRate === 'number' ? data.refillRate : KEEPA.REGEN_RATE;
+      }
+    } catch {
+      // Non-JSON body (proxy error page etc.) - keep the previous estimate
+    }
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // Slot is handed over directly by releaseSlot
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiters.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Routes every request of an inner client through the shared scheduler
+export class ScheduledKeepaClient implements KeepaClient {
+  constructor(
+    private inner: KeepaClient,
+    private scheduler: KeepaScheduler = KeepaScheduler.getInstance(),
+    private maxWaitMs: number = Infinity
+  ) {}
+
+  // Seller lookups are interactive and cheap - they may dip into the MIN_TOKENS reserve
+  seller(sellerId: string, domain: number): Promise<Response> {
+    return this.scheduler.run(
+      KEEPA.TOKENS_PER_SELLER,
+      () => this.inner.seller(sellerId, domain),
+      { maxWaitMs: this.maxWaitMs, reserve: 0 }
+    );
+  }
+
+  product(asins: string[], domain: number, signal?: AbortSignal): Promise<Response> {
+    return this.scheduler.run(
+      asins.length * KEEPA.TOKENS_PER_PRODUCT,
+      () => this.inner.product(asins, domain, signal),
+      { maxWaitMs: this.maxWaitMs, signal }
+    );
+  }
+}
+
+/**
+ * Keepa bucket fill (0-100) for routing and claiming decisions.
+ * Prefers this process's scheduler (freshest), else the latest tokensLeft any worker
+ * recorded in token_ledger. Returns undefined when nothing has been observed yet.
+ */
+export async function getLiveTokenFillPercent(supabase: any): Promise<number | undefined> {
+  let availableTokens = KeepaScheduler.getInstance().getAvailableTokens();
+
+  if (availableTokens === null) {
+    const { tokensLeft, observedAt } = await getLatestTokenObservation(supabase);
+    if (tokensLeft !== null && observedAt) {
+      // Refill timing isn't stored - assume a full interval until the next refill (conservative)
+      availableTokens = projectTokens(tokensLeft, new Date(observedAt).getTime(), KEEPA.REFILL_INTERVAL_MS);
+    }
+  }
+
+  return availableTokens !== null ? getTokenFillPercentage(availableTokens) : undefined;
+}
@@ -0,0 +1,120 @@
+import { CACHE_DURATION } from '../_domain/constants.ts';
+import { getProductCacheKey, isCacheFresh, partitionByCache } from '../_domain/cache.ts';
+import { fetchRawProductData, transformKeepaProduct, type KeepaProduct, type FailedChunk } from './keepa-api.ts';
+import type { KeepaClient } from './keepa-client.ts';
+
+export interface CachedFetchResult {
+  products: KeepaProduct[];
+  cacheHits: number;
+  cacheMisses: number;
+  failedAsins: string[];        // ASINs whose Keepa chunk still failed after retries
+  failedChunks: FailedChunk[];
+}
+
+/**
+ * Cache layer in front of Keepa product fetches.
+ * Raw Keepa payloads are stored per (asin, domain) in keepa_product_cache so any
+ * seller's batch can reuse them - the seller-specific transform runs on read.
+ * Only misses and entries older than CACHE_DURATION.PRODUCT cost Keepa tokens.
+ * Throws the first chunk error only when nothing at all could be served.
+ */
+export async function fetchProductDataCached(
+  asins: string[],
+  domain: number,
+  keepaSellerID: string,
+  client: KeepaClient,
+  supabase: any,
+  isDev: boolean = false,
+  signal?: AbortSignal
+): Promise<CachedFetchResult> {
+  const cached = await getCachedPayloads(supabase, asins, domain);
+  const { hits, misses } = partitionByCache(asins, domain, cached);
+
+  if (isDev) {
+    console.log(`🗄️ Product cache: ${hits.length} hits, ${misses.length} misses (domain ${domain})`);
+  }
+
+  let fetched: any[] = [];
+  let failedChunks: FailedChunk[] = [];
+  if (misses.length > 0) {
+    const fetchResult = await fetchRawProductData(misses, domain, keepaSellerID, client, isDev, signal);
+    fetched = fetchResult.products;
+    failedChunks = fetchResult.failedChunks;
+    await storeCachedPayloads(supabase, fetched, domain);
+  }
+
+  if (hits.length === 0 && fetched.length === 0 && failedChunks.length > 0) {
+    throw failedChunks[0].error;
+  }
+
+  const rawProducts = [
+    ...hits.map(asin => cached.get(getProductCacheKey(asin, domain))),
+    ...fetched
+  ];
+
+  return {
+    products: rawProducts.map((product: any) => transformKeepaProduct(product, keepaSellerID, domain)),
+    cacheHits: hits.length,
+    cacheMisses: misses.length,
+    failedAsins: failedChunks.flatMap(chunk => chunk.asins),
+    failedChunks
+  };
+}
+
+async function getCachedPayloads(
+  supabase: any,
+  asins: string[],
+  domain: number
+): Promise<Map<string, any>> {
+  const cached = new Map<string, any>();
+  const cutoff = new Date(Date.now() - CACHE_DURATION.PRODUCT).toISOString();
+
+  const { data, error } = await supabase
+    .from('keepa_product_cache')
+    .select('asin, domain, payload, fetched_at')
+    .eq('domain', domain)
+    .in('asin', asins)
+    .gte('fetched_at', cutoff);
+
+  // Cache is best-effort - a read failure just means everything is a miss
+  if (error) {
+    console.warn(`⚠️ Product cache read failed: ${error.message}`);
+    return cached;
+  }
+
+  for (const row of data || []) {
+    if (isCacheFresh(row.fetched_at)) {
+      cached.set(getProductCacheKey(row.asin, row.domain), row.payload);
+    }
+  }
+
+  return cached;
+}
+
+async function storeCachedPayloads(
+  supabase: any,
+  rawProducts: any[],
+  domain: number
+): Promise<void> {
+  if (rawProducts.length === 0) {
+    return;
+  }
+
+  const fetchedAt = new Date().toISOString();
+  const rows = rawProducts
+    .filter((product: any) => product?.asin)
+    .map((product: any) => ({
+      asin: product.asin,
+      domain,
+      payload: product,
+      fetched_at: fetchedAt
+    }));
+
+  const { error } = await supabase
+    .from('keepa_product_cache')
+    .upsert(rows, { onConflict: 'asin,domain' });
+
+  if (error) {
+    console.warn(`⚠️ Product cache write failed: ${error.message}`);
+  }
+}
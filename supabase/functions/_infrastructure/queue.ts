@@ -1,7 +1,26 @@
+import { ERROR_TYPES, KEEPA, QUEUE_ETA, FAILURE_STAGE, ADMISSION, BATCH_STATUS } from '../_domain/constants.ts';
+import { getRoutingPriority, calculateScheduledFor, type RoutingDecision } from '../_domain/routing.ts';
+import { getBatchProgress, chooseBatchSize, getEnqueueKey, type BatchSizeDecision } from '../_domain/batching.ts';
+import { buildFailureContext } from '../_domain/dead-letter.ts';
+import { decideAdmission, type AdmissionDecision } from '../_domain/admission.ts';
+import {
+  calculateThroughput,
+  getQueuePositions,
+  estimateEta,
+  getProcessedProductCount,
+  type QueuedBatch,
+  type EtaEstimate,
+  type Throughput
+} from '../_domain/queue-eta.ts';
+import { KeepaError, KeepaRateLimitError } from './keepa-errors.ts';
+import { getLiveTokenFillPercent } from './keepa-scheduler.ts';
+import { insertAdmissionDecision } from './database.ts';
+
 // Constants - EXACT FROM ORIGINAL
 const SMART_ROUTING_THRESHOLD = 200;
 const BATCH_SIZE = 100;
 const ESTIMATED_TOKENS_PER_PRODUCT = 7;
+const UNIQUE_VIOLATION = '23505';   // Postgres error code
 
 // Types - EXACT FROM ORIGINAL
 interface BatchRecord {
@@ -20,6 +39,14 @@ interface BatchRecord {
   user_declined_at?: string;
   available_for_confirmation?: boolean;
   confirmation_offered_to_user_ids?: string[];
+  routing_reason?: string | null;
+  routing_threshold?: number | null;
+  routing_token_percent?: number | null;
+  scheduled_for?: string | null;
+  batch_size?: number | null;          // Size chooseBatchSize picked for this seller's run
+  batch_size_reason?: string | null;
+  enqueue_key?: string | null;         // getEnqueueKey of the ASIN set this batch was created from
+  batch_index?: number | null;         // Position within that group - unique per key while active
 }
 
 interface BatchResult {
@@ -28,6 +55,7 @@ interface BatchResult {
   totalProducts: number;
   batches: BatchRecord[];
   errors: string[];
+  deduplicated?: boolean;   // A concurrent enqueue of the same ASIN set won - batches are its group
 }
 
 interface TriggerResult {
@@ -40,19 +68,53 @@ interface TriggerResult {
   };
 }
 
+interface SellerBatchStatus {
+  id: string;
+  status: string;
+  priority: string | null;
+  productCount: number;
+  position: number | null;    // Approximate global queue position (fair-claim order); null while deferred or backing off
+  scheduledFor: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  eta: EtaEstimate | null;
+  estimatedCompletionAt: string | null;
+}
+
+interface SellerQueueStatus {
+  batches: SellerBatchStatus[];
+  productsDone: number;       // Finished since the seller's oldest active batch was queued
+  productsRemaining: number;
+  progress: number;           // 0-100
+  queueLength: number;        // Active batches across all sellers
+  estimatedCompletionAt: string | null;
+  throughput: Throughput;
+  tokenPercent?: number;
+}
+
 interface QueueResponse {
   batchesCreated: number;
   totalProducts: number;
   estimatedTime: string;
   message: string;
   triggeredJobs: TriggerResult[];
+  scheduledFor?: string;   // Set when LOW-priority work was deferred to the low-usage window
+  enqueueKey?: string;
+  batchIds?: string[];     // The batch group for enqueueKey (existing one when deduplicated)
+  deduplicated?: boolean;
+  admission?: AdmissionDecision;
+  awaitingConfirmation?: boolean;   // Held until a tracking user confirms (large delta)
+  estimatedTokens?: number;
 }
 
 /**
  * Check active product-batches task count using Trigger.dev API
- * COPIED EXACTLY FROM ORIGINAL
  */
-export async function checkActiveTaskCount(runs: any = null, taskId: string = "product-batches"): Promise<number> {
+export async function checkActiveTaskCount(
+  runs: any = null,
+  taskId: string = "product-batches",
+  statuses: readonly string[] = ["EXECUTING"]
+): Promise<number> {
   try {
     console.log(`🔍 Checking active task count for ${taskId}...`);
     
@@ -62,7 +124,7 @@ export async function checkActiveTaskCount(runs: any = null, taskId: string = "p
     }
     
     const response = await runs.list({
-      status: ["EXECUTING"], 
+      status: [...statuses], 
       taskIdentifier: [taskId],
       limit: 50
     });
@@ -77,9 +139,76 @@ export async function checkActiveTaskCount(runs: any = null, taskId: string = "p
   }
 }
 
+/**
+ * PENDING batches across all users (input for shouldDeferProcessing)
+ */
+async function countPendingBatches(supabase: any): Promise<number> {
+  const { count, error } = await supabase
+    .from('product_batches')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'PENDING');
+
+  if (error) {
+    console.log(`⚠️ Error counting pending batches: ${error.message}`);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * PENDING batches a worker could claim right now (not deferred, not backing off)
+ */
+export async function countClaimableBatches(supabase: any): Promise<number> {
+  const now = new Date().toISOString();
+  const { count, error } = await supabase
+    .from('product_batches')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'PENDING')
+    .is('worker_id', null)
+    .or(`scheduled_for.is.null,scheduled_for.lte.${now}`)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`);
+
+  if (error) {
+    console.log(`⚠️ Error counting claimable batches: ${error.message}`);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Inputs for getRoutingPriority: has this user ever queued work, and is any of it still pending
+ */
+async function getUserQueueProfile(
+  supabase: any,
+  userId?: string
+): Promise<{ isNewUser: boolean; hasActiveBatch: boolean }> {
+  if (!userId) {
+    return { isNewUser: false, hasActiveBatch: false };
+  }
+
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('status')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  if (error) {
+    console.log(`⚠️ Error loading user queue profile: ${error.message}`);
+    return { isNewUser: false, hasActiveBatch: false };
+  }
+
+  const batches = data || [];
+  return {
+    isNewUser: batches.length === 0,
+    hasActiveBatch: batches.some((b: any) => b.status === 'PENDING' || b.status === 'PROCESSING')
+  };
+}
+
 /**
  * Check for existing batches and handle deduplication
- * COPIED EXACTLY FROM ORIGINAL
  */
 async function checkExistingBatches(
   sellerUuid: string,
@@ -94,7 +223,7 @@ async function checkExistingBatches(
 
   const { data: existingBatches, error } = await supabase
     .from('product_batches')
-    .select('id, status, created_at, user_id, product_count')
+    .select('id, status, created_at, user_id, product_count, retry_count, scheduled_for, next_attempt_at, worker_id, lease_expires_at')
     .eq('seller_id', sellerUuid)
     .in('status', ['PENDING', 'PROCESSING'])
     .order('created_at', { ascending: false });
@@ -116,9 +245,20 @@ async function checkExistingBatches(
 
   for (const batch of existingBatches) {
     const batchTime = new Date(batch.created_at).getTime();
-    if (batchTime > tenMinutesAgo) {
+    // Deferred batches and retries in backoff are waiting on purpose, not stuck
+    const notBefore = Math.max(
+      batch.scheduled_for ? new Date(batch.scheduled_for).getTime() : 0,
+      batch.next_attempt_at ? new Date(batch.next_attempt_at).getTime() : 0
+    );
+    // PROCESSING: a live lease is being worked, an expired one gets reclaimed by claimOrphanedBatches.
+    // Edge runs never lease - if one died mid-batch its row stays PROCESSING with no lease
+    const hasLiveLease = !!batch.lease_expires_at && new Date(batch.lease_expires_at).getTime() > now;
+    const isReclaimable = !!batch.worker_id && !!batch.lease_expires_at && !hasLiveLease;
+    if (hasLiveLease || batchTime > tenMinutesAgo || notBefore > now) {
       recentBatches.push(batch);
-    } else if ((batch.status === 'PENDING' || batch.status === 'PROCESSING') && batchTime < thirtyMinutesAgo) {
+    } else if (batch.status === 'PROCESSING' && !isReclaimable && batchTime < thirtyMinutesAgo) {
+      stuckBatches.push(batch);
+    } else if (batch.status === 'PENDING' && batchTime < thirtyMinutesAgo) {
       stuckBatches.push(batch);
     }
   }
@@ -142,16 +282,26 @@ async function checkExistingBatches(
   }
 
   if (stuckBatches.length > 0) {
-    console.log(`🧹 Found ${stuckBatches.length} stuck PENDING batches - will clean them up`);
-
-    await supabase
-      .from('product_batches')
-      .update({
-        status: 'FAILED',
-        error_message: 'Batch stuck in PENDING status - auto-failed',
-        updated_at: new Date().toISOString()
-      })
-      .in('id', stuckBatches.map((b: any) => b.id));
+    console.log(`🧹 Found ${stuckBatches.length} stuck batches - moving them to the dead-letter queue`);
+
+    for (const batch of stuckBatches) {
+      const message = `Batch stuck in ${batch.status} status - auto-failed`;
+      const stage = batch.status === 'PROCESSING' ? FAILURE_STAGE.STUCK_PROCESSING : FAILURE_STAGE.STUCK_PENDING;
+      await supabase
+        .from('product_batches')
+        .update({
+          status: 'DEAD_LETTER',
+          error_message: message,
+          last_error_type: ERROR_TYPES.HARD,
+          failure_context: buildFailureContext(stage, ERROR_TYPES.HARD, message, {
+            retryCount: batch.retry_count ?? 0
+          }),
+          dead_lettered_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', batch.id)
+        .eq('status', batch.status);
+    }
 
     return { shouldCreateNew: true, reason: `Cleaned up ${stuckBatches.length} stuck batches` };
   }
@@ -161,14 +311,19 @@ async function checkExistingBatches(
 
 /**
  * Creates smart batches in the database for large sellers
- * COPIED EXACTLY FROM ORIGINAL
  */
 async function createSmartBatches(
   sellerUuid: string,
   asinList: string[],
   supabase: any,
   userId?: string,
-  isTimeMachine: boolean = false
+  isTimeMachine: boolean = false,
+  routing?: RoutingDecision,
+  priority: 'HIGH' | 'LOW' = 'LOW',
+  scheduledFor: Date | null = null,
+  sizing: BatchSizeDecision = { size: BATCH_SIZE, reason: 'Default batch size' },
+  enqueueKey: string | null = null,
+  holdForConfirmation: boolean = false
 ): Promise<BatchResult> {
   const errors: string[] = [];
   const batches: BatchRecord[] = [];
@@ -176,33 +331,42 @@ async function createSmartBatches(
   try {
     console.log(`📦 Creating smart batches for ${asinList.length} products`);
 
-    const totalBatches = Math.ceil(asinList.length / BATCH_SIZE);
-    console.log(`📊 Creating ${totalBatches} batches for ${asinList.length} products`);
+    const batchSize = Math.max(1, sizing.size);
+    const totalBatches = Math.ceil(asinList.length / batchSize);
+    console.log(`📊 Creating ${totalBatches} batches for ${asinList.length} products (${sizing.reason})`);
 
     const allBatchRecords = new Array(totalBatches);
 
     const baseRecord = {
       seller_id: sellerUuid,
       user_id: userId,
-      status: 'PENDING',
-      priority: asinList.length <= 200 ? 'HIGH' : 'LOW' as 'HIGH' | 'LOW',
+      status: holdForConfirmation ? BATCH_STATUS.AWAITING_CONFIRMATION : BATCH_STATUS.PENDING,
+      priority,
       job_type: isTimeMachine ? 'TIME_MACHINE' : 'MONITORING' as 'TIME_MACHINE' | 'MONITORING',
       batch_type: 'NEW_ASINS',
       requested_by_user_id: userId,
-      available_for_confirmation: false,
-      confirmation_offered_to_user_ids: []
+      available_for_confirmation: holdForConfirmation,
+      confirmation_offered_to_user_ids: holdForConfirmation && userId ? [userId] : [],
+      routing_reason: routing?.reason ?? null,
+      routing_threshold: routing?.threshold ?? null,
+      routing_token_percent: routing?.tokenPercent ?? null,
+      scheduled_for: scheduledFor ? scheduledFor.toISOString() : null,
+      batch_size: batchSize,
+      batch_size_reason: sizing.reason,
+      enqueue_key: enqueueKey
     };
 
     for (let i = 0; i < totalBatches; i++) {
-      const startIdx = i * BATCH_SIZE;
-      const endIdx = Math.min(startIdx + BATCH_SIZE, asinList.length);
-      const batchSize = endIdx - startIdx;
+      const startIdx = i * batchSize;
+      const endIdx = Math.min(startIdx + batchSize, asinList.length);
+      const productCount = endIdx - startIdx;
 
       allBatchRecords[i] = {
         ...baseRecord,
-        product_count: batchSize,
+        product_count: productCount,
         new_asins: asinList.slice(startIdx, endIdx),
-        estimated_tokens: batchSize * ESTIMATED_TOKENS_PER_PRODUCT
+        estimated_tokens: productCount * ESTIMATED_TOKENS_PER_PRODUCT,
+        batch_index: i
       };
     }
 
@@ -211,6 +375,22 @@ async function createSmartBatches(
       .insert(allBatchRecords)
       .select();
 
+    // Unique violation on (enqueue_key, batch_index): a concurrent caller already queued this ASIN set
+    if (error?.code === UNIQUE_VIOLATION && enqueueKey) {
+      const existing = await getActiveBatchGroup(supabase, enqueueKey);
+      if (existing.length > 0) {
+        console.log(`♻️ Batch group ${enqueueKey} already queued - reusing ${existing.length} batches`);
+        return {
+          success: true,
+          batchCount: existing.length,
+          totalProducts: existing.reduce((sum: number, b: BatchRecord) => sum + b.product_count, 0),
+          batches: existing,
+          errors,
+          deduplicated: true
+        };
+      }
+    }
+
     if (error) {
       console.error(`❌ Bulk INSERT FAILED:`, {
         error: error.message,
@@ -245,23 +425,44 @@ async function createSmartBatches(
   }
 }
 
+// Active (held, PENDING or PROCESSING) batches created for an enqueue key, in group order
+async function getActiveBatchGroup(supabase: any, enqueueKey: string): Promise<BatchRecord[]> {
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('*')
+    .eq('enqueue_key', enqueueKey)
+    .in('status', [BATCH_STATUS.AWAITING_CONFIRMATION, BATCH_STATUS.PENDING, BATCH_STATUS.PROCESSING])
+    .order('batch_index', { ascending: true });
+
+  if (error) {
+    console.log(`⚠️ Error loading batch group ${enqueueKey}: ${error.message}`);
+    return [];
+  }
+
+  return data || [];
+}
+
 /**
  * Triggers ONE processing job for ALL batches of a seller
- * COPIED EXACTLY FROM ORIGINAL
  */
-async function triggerSingleProcessingJob(
+export async function triggerSingleProcessingJob(
   sellerUuid: string,
   tasks: any,
-  priority: 'HIGH' | 'LOW' = 'LOW'
+  priority: 'HIGH' | 'LOW' = 'LOW',
+  scheduledFor: Date | null = null
 ): Promise<TriggerResult> {
 
   try {
-    console.log(`🚀 Attempting to trigger single job for seller ${sellerUuid}...`);
+    console.log(`🚀 Attempting to trigger single job for seller ${sellerUuid}${scheduledFor ? ` at ${scheduledFor.toISOString()}` : ''}...`);
 
+    // Delayed runs wake a worker when deferred batches become due; one run per seller per slot
     const handle = await tasks.trigger("product-batches", {
       sellerId: sellerUuid,
       priority: priority
-    });
+    }, scheduledFor ? {
+      delay: scheduledFor,
+      idempotencyKey: `product-batches-${sellerUuid}-${scheduledFor.toISOString()}`
+    } : undefined);
 
     console.log(`✅ Triggered single job for seller ${sellerUuid}, run ID: ${handle.id}`);
 
@@ -298,6 +499,51 @@ async function triggerSingleProcessingJob(
   }
 }
 
+/**
+ * Admission control in front of triggerSingleProcessingJob.
+ * Triggers a new product-batches run only when decideAdmission says the live workers
+ * won't absorb the new work, and records every decision in worker_admissions.
+ */
+export async function admitProcessingJob(
+  supabase: any,
+  sellerUuid: string,
+  tasks: any,
+  runs: any,
+  priority: 'HIGH' | 'LOW' = 'LOW',
+  context: { userId?: string; newBatches?: number; source: string }
+): Promise<{ decision: AdmissionDecision; triggerResult: TriggerResult | null }> {
+  const liveWorkers = await checkActiveTaskCount(runs, "product-batches", ADMISSION.LIVE_RUN_STATUSES);
+  const pendingBatches = await countClaimableBatches(supabase);
+  const decision = decideAdmission({ liveWorkers, pendingBatches, priority });
+
+  const triggerResult = decision.admit
+    ? await triggerSingleProcessingJob(sellerUuid, tasks, priority)
+    : null;
+
+  console.log(`🚦 Admission ${decision.admit ? 'granted' : 'declined'} for seller ${sellerUuid}: ${decision.reason}`);
+
+  const { error } = await insertAdmissionDecision(supabase, {
+    seller_id: sellerUuid,
+    user_id: context.userId ?? null,
+    source: context.source,
+    priority,
+    admitted: decision.admit,
+    reason: decision.reason,
+    live_workers: decision.liveWorkers,
+    max_workers: decision.maxWorkers,
+    pending_batches: decision.pendingBatches,
+    backlog_capacity: decision.backlogCapacity,
+    new_batches: context.newBatches ?? null,
+    trigger_run_id: triggerResult?.triggerResult.runId ?? null,
+    trigger_error: triggerResult?.triggerResult.error ?? null
+  });
+  if (error) {
+    console.warn(`⚠️ Admission decision insert failed: ${error.message}`);
+  }
+
+  return { decision, triggerResult };
+}
+
 /**
  * Complete queue workflow for large sellers - EXACT SIGNATURE FROM ORIGINAL
  */
@@ -308,9 +554,18 @@ export async function enqueueProductBatches(
   tasks: any,
   runs: any = null,
   userId?: string,
-  isTimeMachine: boolean = true
+  isTimeMachine: boolean = true,
+  routing?: RoutingDecision,
+  holdForConfirmation: boolean = false   // Create the batches AWAITING_CONFIRMATION instead of queueing them
 ): Promise<QueueResponse> {
-  console.log(`🚀 Processing large seller queue: ${newProducts.length} products`);
+  console.log(`🚀 Processing large seller queue: ${newProducts.length} products${holdForConfirmation ? ' (held for confirmation)' : ''}`);
+
+  // Same seller + ASIN set = same group; a second caller gets the existing batches back
+  const enqueueKey = getEnqueueKey(sellerUuid, newProducts);
+  const existingGroup = await getActiveBatchGroup(supabase, enqueueKey);
+  if (existingGroup.length > 0) {
+    return existingGroupResponse(enqueueKey, existingGroup);
+  }
 
   const batchCheck = await checkExistingBatches(sellerUuid, supabase, userId, isTimeMachine);
 
@@ -331,7 +586,22 @@ export async function enqueueProductBatches(
 
   console.log(`✅ Proceeding with batch creation: ${batchCheck.reason}`);
 
-  const batchResult = await createSmartBatches(sellerUuid, newProducts, supabase, userId, isTimeMachine);
+  // New users and small sellers jump ahead; users who already have work queued wait their turn
+  const userProfile = await getUserQueueProfile(supabase, userId);
+  const priority = getRoutingPriority(userProfile.isNewUser, newProducts.length, userProfile.hasActiveBatch);
+
+  // LOW-priority work waits for the low-usage window when tokens are scarce or the queue is long
+  const queueLength = await countPendingBatches(supabase);
+  const scheduledFor = holdForConfirmation ? null : calculateScheduledFor(priority, routing?.tokenPercent ?? 100, queueLength);
+
+  // Batch size follows the bucket: full batches when it's full, smaller ones when tokens are scarce
+  const tokenPercent = routing?.tokenPercent ?? await getLiveTokenFillPercent(supabase);
+  const availableTokens = tokenPercent !== undefined
+    ? Math.floor((tokenPercent / 100) * KEEPA.BUCKET_SIZE)
+    : KEEPA.BUCKET_SIZE;
+  const sizing = chooseBatchSize(newProducts.length, availableTokens);
+
+  const batchResult = await createSmartBatches(sellerUuid, newProducts, supabase, userId, isTimeMachine, routing, priority, scheduledFor, sizing, enqueueKey, holdForConfirmation);
 
   if (!batchResult.success) {
     console.log(`❌ Batch creation failed: ${batchResult.errors.join(', ')}`);
@@ -344,27 +614,67 @@ export async function enqueueProductBatches(
     };
   }
 
-  const activeCount = await checkActiveTaskCount(runs, "product-batches");
-  if (activeCount >= 3) {
-    console.log(`⏭️ Skipping trigger: ${activeCount}/3 product-batches tasks already running`);
-    
-    const estimatedMinutes = Math.ceil(batchResult.totalProducts / 100) * 0.5;
-    const estimatedTime = estimatedMinutes < 1 ? '< 1 minute' : `${Math.ceil(estimatedMinutes)} minutes`;
-    
+  // Lost the race to a concurrent enqueue - its caller already woke a worker
+  if (batchResult.deduplicated) {
+    return existingGroupResponse(enqueueKey, batchResult.batches);
+  }
+
+  const group = {
+    enqueueKey,
+    batchIds: batchResult.batches.map(b => b.id!)
+  };
+
+  // Held batches wait for confirm/decline - nothing to wake yet
+  if (holdForConfirmation) {
+    const estimatedTokens = batchResult.batches.reduce((sum, b) => sum + b.estimated_tokens, 0);
+    console.log(`✋ Holding ${batchResult.totalProducts} products (${estimatedTokens} tokens) for confirmation`);
+
     return {
       batchesCreated: batchResult.batchCount,
       totalProducts: batchResult.totalProducts,
-      estimatedTime,
-      message: `Existing ${activeCount} tasks will handle ${batchResult.totalProducts} products in ${batchResult.batchCount} batches`,
-      triggeredJobs: []
+      estimatedTime: 'awaiting confirmation',
+      message: `${batchResult.totalProducts} new products need confirmation (~${estimatedTokens} Keepa tokens)`,
+      triggeredJobs: [],
+      awaitingConfirmation: true,
+      estimatedTokens,
+      ...group
+    };
+  }
+
+  if (scheduledFor) {
+    const triggerResult = await triggerSingleProcessingJob(sellerUuid, tasks, priority, scheduledFor);
+    console.log(`🌙 Deferred ${batchResult.totalProducts} products to ${scheduledFor.toISOString()} (queue=${queueLength})`);
+
+    return {
+      batchesCreated: batchResult.batchCount,
+      totalProducts: batchResult.totalProducts,
+      estimatedTime: `scheduled for ${scheduledFor.toISOString()}`,
+      message: `Scheduled ${batchResult.totalProducts} products in ${batchResult.batchCount} batches for the low-usage window`,
+      triggeredJobs: [triggerResult],
+      scheduledFor: scheduledFor.toISOString(),
+      ...group
     };
   }
 
-  const priority = newProducts.length <= 200 ? 'HIGH' : 'LOW';
-  const triggerResult = await triggerSingleProcessingJob(sellerUuid, tasks, priority);
+  const { decision, triggerResult } = await admitProcessingJob(supabase, sellerUuid, tasks, runs, priority, {
+    userId,
+    newBatches: batchResult.batchCount,
+    source: 'enqueue'
+  });
 
-  const estimatedMinutes = Math.ceil(batchResult.totalProducts / 100) * 0.5;
-  const estimatedTime = estimatedMinutes < 1 ? '< 1 minute' : `${Math.ceil(estimatedMinutes)} minutes`;
+  const estimatedTime = formatEstimatedTime(batchResult.totalProducts);
+
+  if (!triggerResult) {
+    return {
+      batchesCreated: batchResult.batchCount,
+      totalProducts: batchResult.totalProducts,
+      estimatedTime,
+      message: `Existing ${decision.liveWorkers} tasks will handle ${batchResult.totalProducts} products in ${batchResult.batchCount} batches`,
+      triggeredJobs: [],
+      admission: decision,
+      ...group
+    };
+  }
 
   console.log(`📊 Queue processing summary: ${triggerResult.success ? 'job triggered successfully' : 'job failed'}`);
 
@@ -373,19 +683,72 @@ export async function enqueueProductBatches(
     totalProducts: batchResult.totalProducts,
     estimatedTime,
     message: `Processing ${batchResult.totalProducts} products in ${batchResult.batchCount} batches`,
-    triggeredJobs: [triggerResult]
+    triggeredJobs: [triggerResult],
+    admission: decision,
+    ...group
+  };
+}
+
+function formatEstimatedTime(totalProducts: number): string {
+  const estimatedMinutes = Math.ceil(totalProducts / 100) * 0.5;
+  return estimatedMinutes < 1 ? '< 1 minute' : `${Math.ceil(estimatedMinutes)} minutes`;
+}
+
+function existingGroupResponse(enqueueKey: string, batches: BatchRecord[]): QueueResponse {
+  const totalProducts = batches.reduce((sum, b) => sum + b.product_count, 0);
+  const awaitingConfirmation = batches.some(b => b.status === BATCH_STATUS.AWAITING_CONFIRMATION);
+  console.log(`♻️ Reusing batch group ${enqueueKey}: ${batches.length} batches, ${totalProducts} products`);
+
+  // Same estimate the group got when it was created: held, deferred, or queued now
+  const deferredUntil = batches.every(b => b.scheduled_for && new Date(b.scheduled_for).getTime() > Date.now())
+    ? batches.map(b => b.scheduled_for!).sort()[0]
+    : null;
+  const estimatedTime = awaitingConfirmation ? 'awaiting confirmation'
+    : deferredUntil ? `scheduled for ${new Date(deferredUntil).toISOString()}`
+    : formatEstimatedTime(totalProducts);
+
+  return {
+    batchesCreated: batches.length,
+    totalProducts,
+    estimatedTime,
+    message: `Using existing batches: same ASINs already queued (${batches.length} batches)`,
+    triggeredJobs: [],
+    enqueueKey,
+    batchIds: batches.map(b => b.id!),
+    deduplicated: true,
+    ...(awaitingConfirmation && {
+      awaitingConfirmation,
+      estimatedTokens: batches.reduce((sum, b) => sum + b.estimated_tokens, 0)
+    })
   };
 }
 
 /**
  * Phase 3: Graceful degradation - fallback to immediate processing if queue fails
- * COPIED EXACTLY FROM ORIGINAL
  */
 export async function handleQueueFailure(
   sellerUuid: string,
   newProducts: string[],
-  fallbackThreshold: number = 100
+  fallbackThreshold: number = 100,
+  error?: unknown
 ): Promise<{ shouldFallback: boolean; reason: string }> {
+  // Keepa failures: immediate processing would hit the same wall
+  if (error instanceof KeepaError) {
+    if (error.errorType === ERROR_TYPES.HARD) {
+      return {
+        shouldFallback: false,
+        reason: `Keepa ${error.kind} error - immediate processing would fail too`
+      };
+    }
+
+    if (error instanceof KeepaRateLimitError) {
+      return {
+        shouldFallback: false,
+        reason: `Keepa rate limited - retry in ${Math.ceil((error.retryAfterMs ?? 0) / 1000)}s`
+      };
+    }
+  }
+
   if (newProducts.length <= fallbackThreshold) {
     console.log(`🔄 Queue failure - falling back to immediate processing (${newProducts.length} products)`);
     return {
@@ -400,9 +763,141 @@ export async function handleQueueFailure(
   };
 }
 
+/**
+ * Where a seller's PENDING/PROCESSING batches sit in the global queue, how far the
+ * current run has got, and when it should finish (see estimateEta)
+ */
+export async function getSellerQueueStatus(
+  supabase: any,
+  sellerUuid: string
+): Promise<{ data: SellerQueueStatus | null; error: any }> {
+  const now = Date.now();
+
+  const { data: sellerBatches, error: sellerError } = await supabase
+    .from('product_batches')
+    .select('id, seller_id, user_id, product_count, status, priority, scheduled_for, next_attempt_at, created_at, started_at')
+    .eq('seller_id', sellerUuid)
+    .in('status', ['PENDING', 'PROCESSING'])
+    .order('created_at', { ascending: true });
+
+  if (sellerError) {
+    return { data: null, error: sellerError };
+  }
+
+  const { data: activeBatches, error: queueError } = await supabase
+    .from('product_batches')
+    .select('id, seller_id, user_id, product_count, status, priority, scheduled_for, next_attempt_at, created_at')
+    .in('status', ['PENDING', 'PROCESSING'])
+    .order('created_at', { ascending: true })
+    .limit(QUEUE_ETA.QUEUE_SCAN_LIMIT);
+
+  if (queueError) {
+    return { data: null, error: queueError };
+  }
+
+  const { data: recentFinished, error: finishedError } = await supabase
+    .from('product_batches')
+    .select('product_count, failed_asins, started_at, completed_at')
+    .in('status', ['COMPLETED', 'PARTIAL'])
+    .gte('completed_at', new Date(now - QUEUE_ETA.THROUGHPUT_WINDOW_MS).toISOString());
+
+  if (finishedError) {
+    return { data: null, error: finishedError };
+  }
+
+  // The current run started when the oldest still-active batch was queued
+  const mine: any[] = sellerBatches || [];
+  let productsDone = 0;
+  if (mine.length > 0) {
+    const { data: runFinished, error: runError } = await supabase
+      .from('product_batches')
+      .select('product_count, failed_asins, completed_at')
+      .eq('seller_id', sellerUuid)
+      .in('status', ['COMPLETED', 'PARTIAL'])
+      .gte('created_at', mine[0].created_at);
+
+    if (runError) {
+      return { data: null, error: runError };
+    }
+
+    productsDone = (runFinished || []).reduce((sum: number, batch: any) => sum + getProcessedProductCount(batch), 0);
+  }
+
+  // Deferred batches and retries in backoff aren't claimable yet, so they don't hold a place in line.
+  // The seller's own batches are merged in case they fall outside the scanned window.
+  const notBefore = (batch: any) => Math.max(
+    batch.scheduled_for ? new Date(batch.scheduled_for).getTime() : 0,
+    batch.next_attempt_at ? new Date(batch.next_attempt_at).getTime() : 0
+  );
+  const isDue = (batch: any) => notBefore(batch) <= now;
+  const queueById = new Map<string, QueuedBatch>();
+  for (const batch of [...(activeBatches || []), ...mine]) {
+    if (isDue(batch)) {
+      queueById.set(batch.id, batch);
+    }
+  }
+  const queue = [...queueById.values()];
+  const tokenPercent = await getLiveTokenFillPercent(supabase);
+  const positions = getQueuePositions(queue, { systemTokenPercent: tokenPercent });
+
+  const throughput = calculateThroughput(recentFinished || []);
+  // Nothing observed recently means nobody has been spending - assume a full bucket
+  const availableTokens = tokenPercent !== undefined
+    ? Math.floor((tokenPercent / 100) * KEEPA.BUCKET_SIZE)
+    : KEEPA.BUCKET_SIZE;
+
+  const batches: SellerBatchStatus[] = mine.map((batch: any) => {
+    const position = positions.get(batch.id) ?? null;
+    let eta: EtaEstimate | null = null;
+    let estimatedCompletionAt: string | null = null;
+
+    if (position !== null) {
+      const productsAhead = queue
+        .filter(other => (positions.get(other.id) ?? 0) < position)
+        .reduce((sum, other) => sum + other.product_count, 0);
+      eta = estimateEta(position - 1, productsAhead, batch.product_count, availableTokens, throughput);
+      estimatedCompletionAt = new Date(now + eta.etaMs).toISOString();
+    } else {
+      estimatedCompletionAt = new Date(notBefore(batch)).toISOString();
+    }
+
+    return {
+      id: batch.id,
+      status: batch.status,
+      priority: batch.priority ?? null,
+      productCount: batch.product_count,
+      position,
+      scheduledFor: batch.scheduled_for ?? null,
+      createdAt: batch.created_at,
+      startedAt: batch.started_at ?? null,
+      eta,
+      estimatedCompletionAt
+    };
+  });
+
+  const productsRemaining = mine.reduce((sum: number, batch: any) => sum + batch.product_count, 0);
+  const completionTimes = batches
+    .map(batch => batch.estimatedCompletionAt)
+    .filter((at): at is string => at !== null)
+    .sort();
+
+  return {
+    data: {
+      batches,
+      productsDone,
+      productsRemaining,
+      progress: getBatchProgress(productsDone, productsDone + productsRemaining),
+      queueLength: queue.length,
+      estimatedCompletionAt: completionTimes.length > 0 ? completionTimes[completionTimes.length - 1] : null,
+      throughput,
+      tokenPercent
+    },
+    error: null
+  };
+}
+
 /**
  * Atomically claim product batches for processing
- * COPIED EXACTLY FROM ORIGINAL
  */
 export async function claimProductBatches(
   supabase: any,
@@ -450,7 +945,6 @@ export async function claimProductBatches(
 
 /**
  * Helper: Claim assigned seller's PENDING batches
- * COPIED EXACTLY FROM ORIGINAL
  */
 async function claimAssignedSeller(
   supabase: any,
@@ -465,6 +959,8 @@ async function claimAssignedSeller(
     .eq('seller_id', sellerId)
     .eq('status', 'PENDING')
     .is('processing_by', null)
+    .or(`scheduled_for.is.null,scheduled_for.lte.${new Date().toISOString()}`)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
     .order('priority', { ascending: false })
     .order('created_at', { ascending: true })
     .limit(limit);
@@ -500,7 +996,6 @@ async function claimAssignedSeller(
 
 /**
  * Helper: Claim orphaned PROCESSING batches from any seller
- * COPIED EXACTLY FROM ORIGINAL
  */
 async function claimOrphanedBatches(
   supabase: any,
@@ -549,7 +1044,6 @@ async function claimOrphanedBatches(
 
 /**
  * Helper: Claim PENDING batches from other sellers
- * COPIED EXACTLY FROM ORIGINAL
  */
 async function claimCrossSellerBatches(
   supabase: any,
@@ -564,6 +1058,8 @@ async function claimCrossSellerBatches(
     .eq('status', 'PENDING')
     .is('processing_by', null)
     .neq('seller_id', sellerId)
+    .or(`scheduled_for.is.null,scheduled_for.lte.${new Date().toISOString()}`)
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${new Date().toISOString()}`)
     .order('priority', { ascending: false })
     .order('created_at', { ascending: true })
     .limit(limit);
@@ -598,4 +1094,4 @@ async function claimCrossSellerBatches(
 }
 
 // Export types for use in other environments - EXACT FROM ORIGINAL
-export type { BatchRecord, BatchResult, TriggerResult, QueueResponse };
\ No newline at end of file
+export type { BatchRecord, BatchResult, TriggerResult, QueueResponse, SellerBatchStatus, SellerQueueStatus };
\ No newline at end of file
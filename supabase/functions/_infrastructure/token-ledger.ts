@@ -0,0 +1,82 @@
+import { TOKEN_OPERATION } from '../_domain/constants.ts';
+import type { KeepaClient } from './keepa-client.ts';
+import { insertTokenLedgerEntry } from './database.ts';
+
+export type TokenOperation = typeof TOKEN_OPERATION[keyof typeof TOKEN_OPERATION];
+
+// Who a run of Keepa requests is billed to
+export interface TokenLedgerContext {
+  source: string;                   // EDGE, TRIGGER_DEV, ...
+  userId?: string | null;
+  sellerId?: string | null;         // sellers.id (uuid) when known
+  batchId?: string | null;
+  sellerOperation?: TokenOperation; // Defaults to SELLER_LOOKUP
+}
+
+/**
+ * Records the tokensConsumed Keepa reports on every response into token_ledger.
+ * Wrap the shared client per request/batch so each entry carries its attribution.
+ * Ledger writes are best-effort - a failed insert never fails the Keepa call.
+ */
+export class LedgerKeepaClient implements KeepaClient {
+  private tokensConsumed = 0;
+
+  constructor(
+    private inner: KeepaClient,
+    private supabase: any,
+    private context: TokenLedgerContext
+  ) {}
+
+  async seller(sellerId: string, domain: number): Promise<Response> {
+    const response = await this.inner.seller(sellerId, domain);
+    await this.record(response, this.context.sellerOperation ?? TOKEN_OPERATION.SELLER_LOOKUP, domain, sellerId, 0);
+    return response;
+  }
+
+  async product(asins: string[], domain: number, signal?: AbortSignal): Promise<Response> {
+    const response = await this.inner.product(asins, domain, signal);
+    await this.record(response, TOKEN_OPERATION.PRODUCT_FETCH, domain, null, asins.length);
+    return response;
+  }
+
+  // Actual tokens spent through this wrapper (cache hits and failed requests cost nothing)
+  getTokensConsumed(): number {
+    return this.tokensConsumed;
+  }
+
+  private async record(
+    response: Response,
+    operation: TokenOperation,
+    domain: number,
+    keepaSellerId: string | null,
+    asinCount: number
+  ): Promise<void> {
+    let body: any;
+    try {
+      body = await response.clone().json();
+    } catch {
+      return; // Not a Keepa JSON body - nothing reported to record
+    }
+
+    const tokensConsumed = typeof body?.tokensConsumed === 'number' ? body.tokensConsumed : 0;
+    this.tokensConsumed += tokensConsumed;
+
+    const { error } = await insertTokenLedgerEntry(this.supabase, {
+      operation,
+      tokens_consumed: tokensConsumed,
+      tokens_left: typeof body?.tokensLeft === 'number' ? body.tokensLeft : null,
+      status_code: response.status,
+      user_id: this.context.userId ?? null,
+      seller_id: this.context.sellerId ?? null,
+      keepa_seller_id: keepaSellerId,
+      batch_id: this.context.batchId ?? null,
+      domain,
+      asin_count: asinCount,
+      source: this.context.source
+    });
+
+    if (error) {
+      console.warn(`⚠️ Token ledger insert failed (${operation}, ${tokensConsumed} tokens): ${error.message}`);
+    }
+  }
+}
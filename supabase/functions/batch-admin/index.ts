@@ -0,0 +1,208 @@
+/*
+ * BATCH ADMIN EDGE FUNCTION
+ *
+ * Dead-letter queue management. Batches that failed HARD, or exhausted their
+ * TRANSIENT retries, park in DEAD_LETTER with failure_context (stage, error type,
+ * Keepa error kind, memory stats, attempts) and their ASINs.
+ *
+ * action "list"    - paged dead letters, optionally by seller UUID or error type
+ * action "inspect" - one dead letter with its ASINs
+ * action "requeue" - back to PENDING (resplitSize re-splits into smaller batches)
+ * action "discard" - drop them (DISCARDED, with who and why)
+ *
+ * Requires an admin JWT (app_metadata.role = 'admin').
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { tasks, runs, configure } from "npm:@trigger.dev/sdk@3.0.0/v3"
+
+// Import domain layer (pure functions)
+import { DEAD_LETTER, ERROR_TYPES } from '../_domain/constants.ts'
+
+// Import infrastructure layer (I/O operations)
+import {
+  listDeadLetterBatches,
+  getDeadLetterBatch,
+  requeueDeadLetterBatches,
+  discardDeadLetterBatches,
+} from '../_infrastructure/database.ts'
+import { admitProcessingJob } from '../_infrastructure/queue.ts'
+import { validateAuthToken, validateAdminToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const TRIGGER_SECRET_KEY = Deno.env.get('TRIGGER_SECRET_KEY') || Deno.env.get('TRIGGER_API_KEY')
+
+// Configure Trigger.dev SDK
+if (TRIGGER_SECRET_KEY) {
+  configure({
+    secretKey: TRIGGER_SECRET_KEY
+  })
+}
+
+// Service client - dead letters span every user
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BatchAdminRequest {
+  action: 'list' | 'inspect' | 'requeue' | 'discard'
+  batchId?: string          // inspect
+  batchIds?: string[]       // requeue / discard
+  resplitSize?: number      // requeue: split each batch into batches of this size
+  reason?: string           // discard
+  sellerUuid?: string       // list filter
+  errorType?: 'TRANSIENT' | 'HARD'  // list filter
+  limit?: number
+  offset?: number
+}
+
+function badRequest(error: string): Response {
+  return Response.json({ success: false, error }, { status: 400, headers: corsHeaders })
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: BatchAdminRequest = await req.json()
+    const { action } = body
+
+    // Validate auth token, then the admin role
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    const { userId: adminId, error: adminError } = validateAdminToken(authHeader)
+    if (adminError || !adminId) {
+      return Response.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403, headers: corsHeaders }
+      )
+    }
+
+    if (action === 'list') {
+      const limit = Math.min(Math.max(1, Math.floor(body.limit ?? DEAD_LETTER.DEFAULT_PAGE_SIZE)), DEAD_LETTER.MAX_PAGE_SIZE)
+      const offset = Math.max(0, Math.floor(body.offset ?? 0))
+
+      if (body.errorType && body.errorType !== ERROR_TYPES.TRANSIENT && body.errorType !== ERROR_TYPES.HARD) {
+        return badRequest('errorType must be TRANSIENT or HARD')
+      }
+
+      const { data, count, error } = await listDeadLetterBatches(supabase, {
+        limit,
+        offset,
+        sellerUuid: body.sellerUuid,
+        errorType: body.errorType
+      })
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      return Response.json({
+        success: true,
+        data: { batches: data, total: count, limit, offset, hasMore: offset + data.length < count }
+      }, { headers: corsHeaders })
+    }
+
+    if (action === 'inspect') {
+      if (!body.batchId) {
+        return badRequest('batchId is required')
+      }
+
+      const { data, error } = await getDeadLetterBatch(supabase, body.batchId)
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+      if (!data) {
+        return Response.json(
+          { success: false, error: 'Dead-letter batch not found' },
+          { status: 404, headers: corsHeaders }
+        )
+      }
+
+      return Response.json({ success: true, data }, { headers: corsHeaders })
+    }
+
+    if (action !== 'requeue' && action !== 'discard') {
+      return badRequest('action must be "list", "inspect", "requeue" or "discard"')
+    }
+
+    const batchIds = body.batchIds || []
+    if (batchIds.length === 0) {
+      return badRequest('batchIds is required')
+    }
+    if (batchIds.length > DEAD_LETTER.MAX_BULK) {
+      return badRequest(`At most ${DEAD_LETTER.MAX_BULK} batches per request`)
+    }
+
+    if (action === 'discard') {
+      const { data: discarded, error } = await discardDeadLetterBatches(supabase, batchIds, adminId, body.reason)
+      if (error) {
+        throw new Error(`Database error: ${error.message}`)
+      }
+
+      console.log(`🗑️ Admin ${adminId} discarded ${discarded.length}/${batchIds.length} dead letters`)
+      return Response.json({ success: true, data: { discarded } }, { headers: corsHeaders })
+    }
+
+    if (body.resplitSize !== undefined && (!Number.isInteger(body.resplitSize) || body.resplitSize < 1)) {
+      return badRequest('resplitSize must be a positive integer')
+    }
+
+    const { data: requeued, error: requeueError } = await requeueDeadLetterBatches(supabase, batchIds, body.resplitSize)
+    if (requeueError) {
+      throw new Error(`Database error: ${requeueError.message}`)
+    }
+
+    // Admission control per affected seller - one at a time so each sees the runs admitted before it
+    const sellers = new Map<string, 'HIGH' | 'LOW'>()
+    for (const batch of requeued) {
+      sellers.set(batch.sellerId, sellers.get(batch.sellerId) === 'HIGH' || batch.priority === 'HIGH' ? 'HIGH' : 'LOW')
+    }
+    const triggered = []
+    for (const [sellerUuid, priority] of sellers) {
+      const { triggerResult } = await admitProcessingJob(supabase, sellerUuid, tasks, runs, priority, {
+        newBatches: requeued.filter(batch => batch.sellerId === sellerUuid).length,
+        source: 'admin_requeue'
+      })
+      if (triggerResult) {
+        triggered.push(triggerResult)
+      }
+    }
+
+    console.log(`♻️ Admin ${adminId} requeued ${requeued.length}/${batchIds.length} dead letters${body.resplitSize ? ` (resplit ${body.resplitSize})` : ''}`)
+
+    return Response.json({
+      success: true,
+      data: {
+        requeued,
+        workersTriggered: triggered.filter(result => result.success).length
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Batch admin error:', error)
+    return Response.json(
+      { success: false, error: 'Batch admin request failed' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
@@ -0,0 +1,122 @@
+/*
+ * BATCH CANCEL EDGE FUNCTION
+ *
+ * Lets a user stop the queued work for one of their sellers.
+ * PENDING batches are cancelled immediately; batches already being processed are
+ * asked to stop - their worker finishes the Keepa chunk in flight, keeps what it
+ * fetched and marks the batch CANCELLED.
+ *
+ * Responds with how many batches were cancelled / are stopping and the Keepa
+ * tokens saved by the PENDING batches (in-flight savings land on each batch's
+ * tokens_saved once its worker stops).
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Import domain layer (pure functions)
+import { validateSellerId, validateDomain } from '../_domain/validation.ts'
+
+// Import infrastructure layer (I/O operations)
+import { getSellerUuid, cancelSellerBatches } from '../_infrastructure/database.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Service client - every query is scoped to the caller's user_id explicitly
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BatchCancelRequest {
+  sellerId: string
+  domain?: number
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: BatchCancelRequest = await req.json()
+    const { sellerId, domain } = body
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const { data: cancellation, error: cancelError } = await cancelSellerBatches(supabase, userId, sellerUuid)
+    if (cancelError) {
+      throw new Error(`Database error: ${cancelError.message}`)
+    }
+
+    if (cancellation.cancelledBatches === 0 && cancellation.stoppingBatches === 0) {
+      return Response.json(
+        { success: false, error: 'No queued or running batches to cancel' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    console.log(`🛑 Cancel user=${userId.substring(0, 8)} seller=${sellerId}: ${cancellation.cancelledBatches} cancelled, ${cancellation.stoppingBatches} stopping, ${cancellation.tokensSaved} tokens saved`)
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        domain: domainValidation.domain,
+        ...cancellation
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Batch cancel error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to cancel batches' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
@@ -0,0 +1,230 @@
+/*
+ * BATCH CONFIRMATION EDGE FUNCTION
+ *
+ * Large new-ASIN deltas (over CONFIRMATION.THRESHOLD) are created AWAITING_CONFIRMATION
+ * by product-processing instead of being queued. Users tracking the seller decide here.
+ *
+ * action "confirm" - release the held batches into the queue (the confirming user's
+ *                    plan budget must cover them; the batches are charged to them)
+ * action "decline" - pass the offer on to the next user tracking the seller; once
+ *                    nobody is left to ask, the batches are cancelled
+ *
+ * Groups nobody confirms within CONFIRMATION.EXPIRY_MS are cancelled as well.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { tasks, runs, configure } from "npm:@trigger.dev/sdk@3.0.0/v3"
+
+// Import domain layer (pure functions)
+import { validateSellerId, validateDomain } from '../_domain/validation.ts'
+import { getPlanEntitlements, checkTokenBudget } from '../_domain/entitlements.ts'
+import { planDecline } from '../_domain/confirmation.ts'
+
+// Import infrastructure layer (I/O operations)
+import {
+  getSellerUuid,
+  getUserPlanType,
+  getMonthlyTokenUsage,
+  getConfirmationOffer,
+  confirmHeldBatches,
+  declineHeldBatches,
+  getSellerTrackerIds
+} from '../_infrastructure/database.ts'
+import { admitProcessingJob } from '../_infrastructure/queue.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const TRIGGER_SECRET_KEY = Deno.env.get('TRIGGER_SECRET_KEY') || Deno.env.get('TRIGGER_API_KEY')
+
+// Configure Trigger.dev SDK
+if (TRIGGER_SECRET_KEY) {
+  configure({
+    secretKey: TRIGGER_SECRET_KEY
+  })
+}
+
+// Service client - every query is scoped to the caller's offer explicitly
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BatchConfirmationRequest {
+  action: 'confirm' | 'decline'
+  sellerId: string
+  domain?: number
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: BatchConfirmationRequest = await req.json()
+    const { action, sellerId, domain } = body
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    if (action !== 'confirm' && action !== 'decline') {
+      return Response.json(
+        { success: false, error: 'action must be "confirm" or "decline"' },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const { data: offer, error: offerError } = await getConfirmationOffer(supabase, sellerUuid)
+    if (offerError) {
+      throw new Error(`Database error: ${offerError.message}`)
+    }
+
+    // Only users who were offered the batches (and haven't declined) get a say
+    if (!offer || !offer.offeredTo.includes(userId) || offer.declinedBy.includes(userId)) {
+      return Response.json(
+        { success: false, error: 'No batches awaiting your confirmation for this seller' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    if (action === 'decline') {
+      const { userIds: trackerIds, error: trackerError } = await getSellerTrackerIds(supabase, sellerUuid)
+      if (trackerError) {
+        throw new Error(`Database error: ${trackerError.message}`)
+      }
+
+      const plan = planDecline(offer, userId, trackerIds)
+      const { data: updated, error: declineError } = await declineHeldBatches(supabase, offer, userId, plan)
+      if (declineError) {
+        throw new Error(`Database error: ${declineError.message}`)
+      }
+      if (updated.length === 0) {
+        return Response.json(
+          { success: false, error: 'These batches were confirmed or changed by another user - try again' },
+          { status: 409, headers: corsHeaders }
+        )
+      }
+
+      console.log(`🙅 User ${userId.substring(0, 8)} declined ${offer.productCount} products for seller ${sellerId}: ${plan.cancel ? 'cancelled' : plan.nextUserId ? `offered to ${plan.nextUserId.substring(0, 8)}` : 'other offers open'}`)
+
+      return Response.json({
+        success: true,
+        data: {
+          sellerId,
+          domain: domainValidation.domain,
+          declinedBatches: updated.length,
+          productCount: offer.productCount,
+          cancelled: plan.cancel,
+          offeredToAnotherUser: !!plan.nextUserId,
+          tokensSaved: plan.cancel ? offer.estimatedTokens : 0
+        }
+      }, { headers: corsHeaders })
+    }
+
+    // Confirm: the confirming user's monthly budget has to cover the held products
+    const { planType, error: planError } = await getUserPlanType(supabase, userId)
+    if (planError) {
+      throw new Error(`Database error: ${planError.message}`)
+    }
+    const { usage, error: usageError } = await getMonthlyTokenUsage(supabase, [userId])
+    if (usageError) {
+      throw new Error(`Database error: ${usageError.message}`)
+    }
+
+    const budgetCheck = checkTokenBudget(usage.get(userId) || 0, offer.productCount, getPlanEntitlements(planType))
+    if (!budgetCheck.allowed) {
+      return Response.json({
+        success: false,
+        error: budgetCheck.error,
+        suggestion: budgetCheck.suggestion,
+        code: 'PLAN_LIMIT',
+        plan: budgetCheck.planType,
+        upgradePlan: budgetCheck.upgradePlan
+      }, { status: 403, headers: corsHeaders })
+    }
+
+    const { data: released, error: confirmError } = await confirmHeldBatches(supabase, offer.batchIds, userId)
+    if (confirmError) {
+      throw new Error(`Database error: ${confirmError.message}`)
+    }
+    if (released.length === 0) {
+      return Response.json(
+        { success: false, error: 'These batches were already confirmed or declined' },
+        { status: 409, headers: corsHeaders }
+      )
+    }
+
+    const priority = released.some((b: any) => b.priority === 'HIGH') ? 'HIGH' : 'LOW'
+    const { decision, triggerResult } = await admitProcessingJob(supabase, sellerUuid, tasks, runs, priority, {
+      userId,
+      newBatches: released.length,
+      source: 'confirmation'
+    })
+
+    console.log(`👍 User ${userId.substring(0, 8)} confirmed ${offer.productCount} products for seller ${sellerId} (~${offer.estimatedTokens} tokens)`)
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        domain: domainValidation.domain,
+        confirmedBatches: released.length,
+        productCount: offer.productCount,
+        estimatedTokens: offer.estimatedTokens,
+        workerTriggered: triggerResult?.success ?? false,
+        admission: decision.reason
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Batch confirmation error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to update batch confirmation' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
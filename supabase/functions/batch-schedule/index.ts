@@ -0,0 +1,185 @@
+/*
+ * BATCH SCHEDULE EDGE FUNCTION
+ *
+ * Lets a user see when their queued batches for a seller will run and override it.
+ * LOW-priority batches may be deferred to the low-usage window (scheduled_for);
+ * workers ignore batches until they are due.
+ *
+ * action "list"       - pending batches with their scheduled start
+ * action "reschedule" - move pending batches to scheduledFor (ISO timestamp, or "now")
+ *                       and wake a worker for that time
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { tasks, configure } from "npm:@trigger.dev/sdk@3.0.0/v3"
+
+// Import domain layer (pure functions)
+import { validateSellerId, validateDomain, validateScheduledFor } from '../_domain/validation.ts'
+
+// Import infrastructure layer (I/O operations)
+import { getSellerUuid, getPendingBatchSchedule, reschedulePendingBatches } from '../_infrastructure/database.ts'
+import { triggerSingleProcessingJob } from '../_infrastructure/queue.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+const TRIGGER_SECRET_KEY = Deno.env.get('TRIGGER_SECRET_KEY') || Deno.env.get('TRIGGER_API_KEY')
+
+// Configure Trigger.dev SDK
+if (TRIGGER_SECRET_KEY) {
+  configure({
+    secretKey: TRIGGER_SECRET_KEY
+  })
+}
+
+// Service client - every query is scoped to the caller's user_id explicitly
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BatchScheduleRequest {
+  action?: 'list' | 'reschedule'
+  sellerId: string
+  domain?: number
+  scheduledFor?: string    // ISO timestamp or "now"
+  batchIds?: string[]      // Defaults to every pending batch for the seller
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: BatchScheduleRequest = await req.json()
+    const { action = 'list', sellerId, domain, scheduledFor, batchIds } = body
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    if (action !== 'list' && action !== 'reschedule') {
+      return Response.json(
+        { success: false, error: 'action must be "list" or "reschedule"' },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    if (action === 'list') {
+      const { data: batches, error: listError } = await getPendingBatchSchedule(supabase, userId, sellerUuid)
+      if (listError) {
+        throw new Error(`Database error: ${listError.message}`)
+      }
+
+      return Response.json({
+        success: true,
+        data: { sellerId, domain: domainValidation.domain, batches }
+      }, { headers: corsHeaders })
+    }
+
+    // Reschedule: "now" (or a past time) clears the deferral
+    if (!scheduledFor) {
+      return Response.json(
+        { success: false, error: 'scheduledFor is required to reschedule' },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    let runAt: Date | null = null
+    if (scheduledFor !== 'now') {
+      const scheduleValidation = validateScheduledFor(scheduledFor)
+      if (!scheduleValidation.valid) {
+        return Response.json(
+          { success: false, error: scheduleValidation.error },
+          { status: 400, headers: corsHeaders }
+        )
+      }
+      const requested = new Date(scheduledFor)
+      runAt = requested.getTime() > Date.now() ? requested : null
+    }
+
+    const { data: batches, error: updateError } = await reschedulePendingBatches(
+      supabase,
+      userId,
+      sellerUuid,
+      runAt ? runAt.toISOString() : null,
+      batchIds
+    )
+
+    if (updateError) {
+      throw new Error(`Database error: ${updateError.message}`)
+    }
+
+    if (batches.length === 0) {
+      return Response.json(
+        { success: false, error: 'No pending batches to reschedule' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    // Wake a worker for the new time (delayed run) or right away
+    const priority = batches.some((b: any) => b.priority === 'HIGH') ? 'HIGH' : 'LOW'
+    const triggerResult = await triggerSingleProcessingJob(sellerUuid, tasks, priority, runAt)
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        domain: domainValidation.domain,
+        scheduledFor: runAt ? runAt.toISOString() : null,
+        batches,
+        workerTriggered: triggerResult.success
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Batch schedule error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to update batch schedule' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
@@ -0,0 +1,156 @@
+/*
+ * PRODUCT HISTORY EDGE FUNCTION
+ *
+ * Returns stored Keepa time series for one seller's ASIN, ready for charting:
+ * storefront price, buy box price, sales rank and stock.
+ * Series are populated by insertProducts (product_history table) - no Keepa tokens spent here.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Import domain layer (pure functions)
+import { getMarketplaceInfo } from '../_domain/marketplaces.ts'
+import { validateSellerId, validateDomain, validateAsinFormat, validateHistoryDays } from '../_domain/validation.ts'
+import { normalizeAsin } from '../_domain/asins.ts'
+import { HISTORY_METRICS, type HistoryMetric } from '../_domain/history.ts'
+
+// Import infrastructure layer (I/O operations)
+import { getSellerUuid, getProductHistory } from '../_infrastructure/database.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+
+const DEFAULT_DAYS = 90
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ProductHistoryRequest {
+  sellerId: string
+  asin: string
+  domain?: number
+  days?: number
+  metrics?: HistoryMetric[]
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: ProductHistoryRequest = await req.json()
+    const { sellerId, domain, days = DEFAULT_DAYS, metrics } = body
+    const asin = normalizeAsin(body.asin)
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    if (!validateAsinFormat(asin)) {
+      return Response.json(
+        { success: false, error: 'Invalid ASIN format' },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const daysValidation = validateHistoryDays(days)
+    if (!daysValidation.valid) {
+      return Response.json(
+        { success: false, error: daysValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const validMetrics = Object.values(HISTORY_METRICS)
+    if (metrics !== undefined && (!Array.isArray(metrics) || metrics.some(m => !validMetrics.includes(m)))) {
+      return Response.json(
+        { success: false, error: `Invalid metric. Valid metrics are: ${validMetrics.join(', ')}` },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    // User-authenticated client so RLS applies to history reads
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: false },
+      realtime: { enabled: false },
+      global: {
+        headers: {
+          Authorization: authHeader!
+        }
+      }
+    })
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const { series, error: historyError } = await getProductHistory(
+      supabase,
+      sellerUuid,
+      asin,
+      domainValidation.domain,
+      { metrics, since }
+    )
+
+    if (historyError) {
+      throw new Error(`Database error: ${historyError.message}`)
+    }
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        asin,
+        domain: domainValidation.domain,
+        marketplace: getMarketplaceInfo(domainValidation.domain),
+        since,
+        series
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Product history error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to load product history' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
@@ -3,12 +3,17 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 // Import domain layer types and constants
 import { LIMITS } from '../_domain/constants.ts';
+import { shouldUseQueue, type RoutingDecision } from '../_domain/routing.ts';
+import { getPlanEntitlements, checkProductLimit, checkTokenBudget, type PlanEntitlements } from '../_domain/entitlements.ts';
+import { needsConfirmation } from '../_domain/confirmation.ts';
 
 // Import infrastructure operations
-import { findNewAsins, type AsinComparison, type InsertResult } from '../_infrastructure/database.ts';
+import { findNewAsins, getUserTokenUsage, getUserPlanType, getMonthlyTokenUsage, getConfirmationOffer, offerConfirmation, getSellerTrackerIds, type AsinComparison, type InsertResult } from '../_infrastructure/database.ts';
 import { processProductBatch, type BatchProcessingResult } from '../_infrastructure/batch-processing.ts';
 import { enqueueProductBatches } from '../_infrastructure/queue.ts';
 import { WebhookNotifier } from '../_infrastructure/discord.ts';
+import { createKeepaClient } from '../_infrastructure/keepa-client.ts';
+import { getLiveTokenFillPercent } from '../_infrastructure/keepa-scheduler.ts';
 
 // Import Trigger.dev SDK for queue processing
 import { tasks, configure, runs } from "npm:@trigger.dev/sdk@3.0.0/v3";
@@ -36,6 +41,9 @@ const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
   realtime: { enabled: false }, // Faster initialization, no realtime needed
 });
 
+// Keepa client (live API, or offline fixtures when KEEPA_FIXTURES_PATH is set)
+const keepaClient = createKeepaClient(KEEPA_API_KEY, { maxWaitMs: LIMITS.EDGE_MAX_TOKEN_WAIT_MS, supabase });
+
 // JWT decode utility (100x faster than auth.getUser)
 function decodeJWT(token: string) {
   try {
@@ -135,18 +143,89 @@ Deno.serve(async (req: Request) => {
     // Use only the truly new ASINs for processing
     const newAsinsToProcess = processingDecision.newAsins || [];
     
-    // Phase 3: Smart routing - check if we should use queue processing
-    const shouldQueue = newAsinsToProcess.length > LIMITS.ROUTING_THRESHOLD;
+    // Plan entitlements: per-seller product limit, and the monthly token budget must cover every new product
+    const { planType, error: planError } = await getUserPlanType(supabase, user.id);
+    if (planError) {
+      throw new Error(`Plan lookup failed: ${planError.message}`);
+    }
+    const entitlements = getPlanEntitlements(planType);
+
+    const { usage: monthlyUsage, error: monthlyUsageError } = await getMonthlyTokenUsage(supabase, [user.id]);
+    if (monthlyUsageError) {
+      throw new Error(`Token usage lookup failed: ${monthlyUsageError.message}`);
+    }
+
+    // The per-seller cap covers what the seller already has and has queued, not just this request
+    const sellerProductCount = (processingDecision.existingCount || 0) + (processingDecision.pendingCount || 0) + newAsinsToProcess.length;
+    const planCheck = [
+      checkProductLimit(sellerProductCount, entitlements),
+      checkTokenBudget(monthlyUsage.get(user.id) || 0, newAsinsToProcess.length, entitlements)
+    ].find(check => !check.allowed);
+    if (planCheck) {
+      log(`⛔ ${entitlements.label} plan limit: ${planCheck.error}`);
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: planCheck.error,
+          suggestion: planCheck.suggestion,
+          code: 'PLAN_LIMIT',
+          plan: planCheck.planType,
+          upgradePlan: planCheck.upgradePlan
+        }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+    
+    // Phase 3: Smart routing - threshold moves with live token fill and the user's recent usage
+    const routing = await getLiveRoutingDecision(newAsinsToProcess.length, user.id, entitlements);
+    log(`🧭 Routing: ${routing.route} | ${routing.reason} | tokens ${routing.tokenPercent?.toFixed(0) ?? '?'}% | user ${routing.recentUsage ?? '?'} tokens/h`);
+
+    if (routing.route === 'skip') {
+      return new Response(
+        JSON.stringify({ success: false, error: routing.reason, routing }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
     
+    // Large deltas are held until the user (or another tracker) confirms the token cost
+    if (processingDecision.needsConfirmation) {
+      const held = await enqueueProductBatches(sellerUuid, newAsinsToProcess, supabase, tasks, runs, user.id, true, routing, true);
+      log(`✋ Holding ${held.totalProducts} new products for confirmation (~${held.estimatedTokens ?? 0} tokens)`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          type: held.awaitingConfirmation ? 'CONFIRMATION_REQUIRED' : 'NETWORK_PROCESSING_IN_PROGRESS',
+          message: held.message,
+          confirmation: held.awaitingConfirmation ? {
+            batchIds: held.batchIds,
+            batchCount: held.batchesCreated,
+            productCount: held.totalProducts,
+            estimatedTokens: held.estimatedTokens
+          } : undefined,
+          routing
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
     let result;
-    if (shouldQueue) {
-      // Route to queue processing (>50 NEW products)
+    if (routing.route === 'queue') {
+      // Route to queue processing (above the dynamic threshold)
       log(`🚀 Routing to queue processing: ${newAsinsToProcess.length} NEW products (${processingDecision.existingCount} existing)`);
       
       // Webhook notification: Smart routing decision
       WebhookNotifier.started('Product Processing', `${sellerId.substring(0,8)}: ${newAsinsToProcess.length} new products → queue`);
       
-              result = await enqueueProductBatches(sellerUuid, newAsinsToProcess, supabase, tasks, runs, user.id, true);
+              result = await enqueueProductBatches(sellerUuid, newAsinsToProcess, supabase, tasks, runs, user.id, true, routing);
       
       // Convert queue response to processing result format
       result = {
@@ -159,7 +238,10 @@ Deno.serve(async (req: Request) => {
           batchesCreated: result.batchesCreated,
           totalProducts: result.totalProducts,
           estimatedTime: result.estimatedTime,
-          message: result.message
+          message: result.message,
+          enqueueKey: result.enqueueKey,
+          batchIds: result.batchIds,
+          deduplicated: result.deduplicated ?? false
         },
         smartProcessing: {
           newProducts: newAsinsToProcess.length,
@@ -168,7 +250,7 @@ Deno.serve(async (req: Request) => {
         }
       };
     } else {
-      // Route to immediate processing (≤50 NEW products)
+      // Route to immediate processing (within the dynamic threshold)
       log(`⚡ Routing to immediate processing: ${newAsinsToProcess.length} NEW products (${processingDecision.existingCount} existing)`);
       
       // Webhook notification: Smart routing decision
@@ -177,13 +259,19 @@ Deno.serve(async (req: Request) => {
              const batchResult = await processProductBatch(sellerUuid, newAsinsToProcess, domain, sellerId, supabase, {
         userId: user.id,
         source: 'EDGE',
-        createBatch: true
+        createBatch: true,
+        keepaClient,
+        routing
       });
       
       // Handle fallback to queue if transient error
       if (!batchResult.success && batchResult.canFallbackToQueue) {
         log(`⚠️ Immediate processing failed with transient error - falling back to queue`);
-        result = await enqueueProductBatches(sellerUuid, newAsinsToProcess, supabase, tasks, runs, user.id, true);
+        result = await enqueueProductBatches(sellerUuid, newAsinsToProcess, supabase, tasks, runs, user.id, true, {
+          ...routing,
+          route: 'queue',
+          reason: `Fallback to queue after edge failure: ${batchResult.errors[0] ?? 'transient error'}`
+        });
       } else {
         // Convert BatchProcessingResult to ProcessingResult format
         result = {
@@ -211,6 +299,7 @@ Deno.serve(async (req: Request) => {
     return new Response(
       JSON.stringify({
         ...result,
+        routing,
         processingTime,
       }),
       {
@@ -254,8 +343,12 @@ async function getNetworkProcessingDecision(
   message?: string;
   newCount?: number;
   existingCount?: number;
+  pendingCount?: number;
   batchId?: string;
+  batchIds?: string[];
+  estimatedTokens?: number;
   newAsins?: string[];
+  needsConfirmation?: boolean;
 }> {
   // Check if this seller is being processed by the network
   const { data: activeBatch } = await supabase
@@ -275,20 +368,47 @@ async function getNetworkProcessingDecision(
   }
   
   // Check for batches awaiting confirmation (network needs help)
-  const { data: awaitingConfirmation } = await supabase
-    .from('product_batches')
-    .select('id, product_count, new_asins')
-    .eq('seller_id', sellerUuid)
-    .eq('available_for_confirmation', true)
-    .not('confirmation_offered_to_user_ids', 'cs', `{${userId}}`)
-    .single();
+  const { data: offer } = await getConfirmationOffer(supabase, sellerUuid);
     
-  if (awaitingConfirmation) {
+  if (offer) {
+    if (offer.declinedBy.includes(userId)) {
+      return {
+        type: 'NETWORK_AWAITING_CONFIRMATION',
+        message: 'New products are waiting for another user to confirm them.',
+        batchIds: offer.batchIds
+      };
+    }
+
+    // Only users tracking the seller may spend tokens on it - everyone else just waits
+    const { userIds: trackerIds, error: trackerError } = await getSellerTrackerIds(supabase, sellerUuid);
+    if (trackerError || !trackerIds.includes(userId)) {
+      return {
+        type: 'NETWORK_AWAITING_CONFIRMATION',
+        message: 'New products are waiting for a user tracking this seller to confirm them.',
+        batchIds: offer.batchIds
+      };
+    }
+
+    // Record that this tracker was asked - if a concurrent offer or decline changed the lists, leave it
+    // unrecorded so the next request offers again (a confirmation needs the user on the offer list)
+    if (!offer.offeredTo.includes(userId)) {
+      const { data: recorded } = await offerConfirmation(supabase, offer, [...offer.offeredTo, userId]);
+      if (recorded.length === 0) {
+        return {
+          type: 'NETWORK_AWAITING_CONFIRMATION',
+          message: 'Another user is responding to these products. Check back in a moment.',
+          batchIds: offer.batchIds
+        };
+      }
+    }
+
     log(`✋ Network needs confirmation from user ${userId} for seller ${sellerUuid}`);
     return {
       type: 'NETWORK_NEEDS_CONFIRMATION',
-      batchId: awaitingConfirmation.id,
-      newCount: awaitingConfirmation.product_count,
+      batchId: offer.batchIds[0],
+      batchIds: offer.batchIds,
+      newCount: offer.productCount,
+      estimatedTokens: offer.estimatedTokens,
       message: 'New products detected. Process them?'
     };
   }
@@ -307,16 +427,33 @@ async function getNetworkProcessingDecision(
   
   log(`🆕 Detected ${asinAnalysis.newCount} new ASINs for seller ${sellerUuid}`);
   
-  // Determine if confirmation is needed
-  const needsConfirmation = asinAnalysis.newCount > 200;
-  
   return {
     type: 'NEW_ASINS_DETECTED',
     ...asinAnalysis,
-    needsConfirmation: needsConfirmation
+    needsConfirmation: needsConfirmation(asinAnalysis.newCount)
   };
 }
 
+// Live inputs for shouldUseQueue: Keepa bucket fill, the user's last hour of ledger usage and plan limit
+async function getLiveRoutingDecision(
+  productCount: number,
+  userId: string,
+  entitlements: PlanEntitlements
+): Promise<RoutingDecision> {
+  const tokenPercent = await getLiveTokenFillPercent(supabase);
+  const { usage, error: usageError } = await getUserTokenUsage(supabase, userId, '1 hour');
+  if (usageError && isDev) {
+    console.warn(`⚠️ Token usage lookup failed - routing without it: ${usageError.message}`);
+  }
+
+  return shouldUseQueue(
+    productCount,
+    tokenPercent,
+    usageError ? undefined : usage,
+    entitlements.maxProductsPerSeller
+  );
+}
+
 async function dbSellerGetUuid(keepaSellerID: string, domain: number): Promise<string | null> {
   const { data, error } = await supabase
     .from('sellers')
@@ -0,0 +1,112 @@
+/*
+ * QUEUE STATUS EDGE FUNCTION
+ *
+ * After enqueueProductBatches hands back its one-off estimatedTime, this is how a
+ * user follows a seller's run: every PENDING/PROCESSING batch with its position in
+ * the global queue, products done/remaining, and an ETA built from queue delay,
+ * Keepa token regen and observed worker throughput.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Import domain layer (pure functions)
+import { validateSellerId, validateDomain } from '../_domain/validation.ts'
+
+// Import infrastructure layer (I/O operations)
+import { getSellerUuid } from '../_infrastructure/database.ts'
+import { getSellerQueueStatus } from '../_infrastructure/queue.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Service client - ranking needs every user's batches, only counts leave this function
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface QueueStatusRequest {
+  sellerId: string
+  domain?: number
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: QueueStatusRequest = await req.json()
+    const { sellerId, domain } = body
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const { data: status, error: statusError } = await getSellerQueueStatus(supabase, sellerUuid)
+    if (statusError || !status) {
+      throw new Error(`Database error: ${statusError?.message}`)
+    }
+
+    console.log(`📊 Queue status seller=${sellerId} batches=${status.batches.length} remaining=${status.productsRemaining} eta=${status.estimatedCompletionAt ?? '-'}`)
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        domain: domainValidation.domain,
+        ...status
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Queue status error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to load queue status' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
@@ -0,0 +1,136 @@
+/*
+ * SELLER CATALOG EDGE FUNCTION
+ *
+ * Returns a seller's catalog grouped by variation family: children roll up under
+ * their parent ASIN with summed monthly sales and stock and a price range.
+ * Reads the seller_catalog_groups view - no Keepa tokens spent here.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Import domain layer (pure functions)
+import { getMarketplaceInfo } from '../_domain/marketplaces.ts'
+import { validateSellerId, validateDomain } from '../_domain/validation.ts'
+
+// Import infrastructure layer (I/O operations)
+import { getSellerUuid, getSellerCatalogGroups } from '../_infrastructure/database.ts'
+import { validateAuthToken } from '../_infrastructure/auth.ts'
+
+// Module-level environment variables (cached once, reused forever)
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
+const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+// CORS headers for browser requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface SellerCatalogRequest {
+  sellerId: string
+  domain?: number
+  limit?: number
+  offset?: number
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body: SellerCatalogRequest = await req.json()
+    const { sellerId, domain, limit = DEFAULT_LIMIT, offset = 0 } = body
+
+    // Validate auth token
+    const authHeader = req.headers.get('Authorization')
+    const { userId, error: authError } = validateAuthToken(authHeader)
+
+    if (authError || !userId) {
+      return Response.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401, headers: corsHeaders }
+      )
+    }
+
+    const sellerValidation = validateSellerId(sellerId)
+    if (!sellerValidation.valid) {
+      return Response.json(
+        { success: false, error: sellerValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    const domainValidation = validateDomain(domain)
+    if (!domainValidation.valid) {
+      return Response.json(
+        { success: false, error: domainValidation.error },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT || !Number.isInteger(offset) || offset < 0) {
+      return Response.json(
+        { success: false, error: `limit must be 1-${MAX_LIMIT} and offset must be >= 0` },
+        { status: 400, headers: corsHeaders }
+      )
+    }
+
+    // User-authenticated client so RLS applies to catalog reads
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      auth: { persistSession: false },
+      realtime: { enabled: false },
+      global: {
+        headers: {
+          Authorization: authHeader!
+        }
+      }
+    })
+
+    const { uuid: sellerUuid, error: sellerError } = await getSellerUuid(supabase, sellerId, domainValidation.domain)
+    if (sellerError) {
+      throw new Error(`Database error: ${sellerError.message}`)
+    }
+    if (!sellerUuid) {
+      return Response.json(
+        { success: false, error: 'Seller not found' },
+        { status: 404, headers: corsHeaders }
+      )
+    }
+
+    const { data: groups, count, error: catalogError } = await getSellerCatalogGroups(
+      supabase,
+      sellerUuid,
+      domainValidation.domain,
+      { limit, offset }
+    )
+
+    if (catalogError) {
+      throw new Error(`Database error: ${catalogError.message}`)
+    }
+
+    return Response.json({
+      success: true,
+      data: {
+        sellerId,
+        domain: domainValidation.domain,
+        marketplace: getMarketplaceInfo(domainValidation.domain),
+        totalGroups: count,
+        limit,
+        offset,
+        groups
+      }
+    }, { headers: corsHeaders })
+
+  } catch (error) {
+    console.error('❌ Seller catalog error:', error)
+    return Response.json(
+      { success: false, error: 'Failed to load seller catalog' },
+      { status: 500, headers: corsHeaders }
+    )
+  }
+})
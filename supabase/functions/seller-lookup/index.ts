@@ -8,7 +8,7 @@
  * 4. Extracts seller name, ASIN list, competitors, brands
  * 5. Saves/updates seller in database
  * 6. Determines new ASINs (checks against: initial_asin_list + seller_products + product_batches)
- * 7. Checks 3000 ASIN limit
+ * 7. Checks the plan's per-seller ASIN limit (plus tracked-seller cap and monthly token budget)
  * 8. Fire-and-forget to product-processing (if under limit)
  * 9. Returns seller info to frontend immediately
  * 
@@ -25,6 +25,15 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { validateSellerId, validateDomain } from '../_domain/validation.ts'
 import { LIMITS } from '../_domain/constants.ts'
 import { determineNewAsins } from '../_domain/asins.ts'
+import { getMarketplaceInfo } from '../_domain/marketplaces.ts'
+import {
+  getPlanEntitlements,
+  isRefreshDue,
+  checkProductLimit,
+  checkTrackedSellerLimit,
+  checkTokenBudget,
+  type EntitlementCheck
+} from '../_domain/entitlements.ts'
 
 // Import infrastructure layer (I/O operations)
 import {
@@ -35,17 +44,30 @@ import {
   updateSeller,
   captureSellerSearch,
   queueSimilarSellers,
+  getUserPlanType,
+  getTrackedSellerCount,
+  getMonthlyTokenUsage,
 } from '../_infrastructure/database.ts'
 import { fetchSellerData, extractSimilarSellers, extractTopBrands } from '../_infrastructure/keepa-api.ts'
+import { createKeepaClient } from '../_infrastructure/keepa-client.ts'
+import { LedgerKeepaClient } from '../_infrastructure/token-ledger.ts'
+import { KeepaRateLimitError, KeepaServerError, KeepaNetworkError } from '../_infrastructure/keepa-errors.ts'
 import { validateAuthToken } from '../_infrastructure/auth.ts'
 
 // Module-level environment variables (cached once, reused forever)
 const KEEPA_API_KEY = Deno.env.get('KEEPA_API_KEY')!
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!
 const SUPABASE_ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY')!
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+// Service client for token_ledger only - users can't record their own usage
+const ledgerSupabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+  realtime: { enabled: false },
+})
 
-// Business logic constants
-const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000 // 24 hours in milliseconds
+// Keepa client (live API, or offline fixtures when KEEPA_FIXTURES_PATH is set)
+const keepaClient = createKeepaClient(KEEPA_API_KEY, { maxWaitMs: LIMITS.EDGE_MAX_TOKEN_WAIT_MS, supabase: ledgerSupabase })
 
 // CORS headers for browser requests
 const corsHeaders = {
@@ -65,6 +87,7 @@ interface SellerDetailsResponse {
     sellerId: string
     sellerName: string
     domain: number
+    marketplace: ReturnType<typeof getMarketplaceInfo>
     asinCount: number
     recentlyAdded: Array<{
       asin: string
@@ -75,6 +98,9 @@ interface SellerDetailsResponse {
   }
   error?: string
   suggestion?: string
+  code?: 'PLAN_LIMIT'
+  plan?: string
+  upgradePlan?: string
 }
 
 // Build response from existing seller data
@@ -85,6 +111,7 @@ function buildSellerResponse(dbSeller: any, domain: number): SellerDetailsRespon
       sellerId: dbSeller.seller_id,
       sellerName: dbSeller.seller_name || 'Unknown Seller',
       domain: domain,
+      marketplace: getMarketplaceInfo(domain),
       asinCount: dbSeller.asin_count || 0,
       recentlyAdded: [], // Don't send ASIN list - frontend doesn't need it
       lastCheckedAt: dbSeller.last_checked_at || null
@@ -92,7 +119,18 @@ function buildSellerResponse(dbSeller: any, domain: number): SellerDetailsRespon
   }
 }
 
-
+// 403 for a request the caller's plan doesn't cover, with the plan that would
+function planLimitResponse(check: EntitlementCheck): Response {
+  const body: SellerDetailsResponse = {
+    success: false,
+    error: check.error,
+    suggestion: check.suggestion,
+    code: 'PLAN_LIMIT',
+    plan: check.planType,
+    upgradePlan: check.upgradePlan
+  }
+  return Response.json(body, { status: 403, headers: corsHeaders })
+}
 
 serve(async (req) => {
   const requestStart = Date.now()
@@ -175,12 +213,19 @@ serve(async (req) => {
         throw new Error(`Database error: ${fetchError.message}`)
       }
 
-      // Check if seller data is fresh (within 24 hours) - SIMPLIFIED
+      // Plan entitlements: refresh interval, product limit, tracked sellers, token budget
+      const { planType, error: planError } = await getUserPlanType(supabase, userId)
+      if (planError) {
+        throw new Error(`Database error: ${planError.message}`)
+      }
+      const entitlements = getPlanEntitlements(planType)
+
+      // Check if seller data is fresh (within the plan's refresh interval) - SIMPLIFIED
       if (existingSeller && existingSeller.last_checked_at) {
         const lastCheckTime = new Date(existingSeller.last_checked_at).getTime()
         const timeAgoMs = Date.now() - lastCheckTime
 
-        if (timeAgoMs < REFRESH_INTERVAL_MS) {
+        if (!isRefreshDue(existingSeller.last_checked_at, entitlements.refreshIntervalMs)) {
           const timeAgo = Math.round(timeAgoMs / (1000 * 60 * 60)) // hours ago
           console.log(`[${requestId}] ✅ [CACHE HIT] Seller data fresh (${timeAgo}h old) - returning without Keepa API call`)
 
@@ -189,14 +234,40 @@ serve(async (req) => {
 
           return Response.json(buildSellerResponse(existingSeller, userDomain), { headers: corsHeaders })
         } else {
-          console.log(`[${requestId}] 🔄 Data >24h old, refreshing...`)
+          console.log(`[${requestId}] 🔄 Data older than ${entitlements.label} refresh interval, refreshing...`)
         }
       }
 
+      // A fresh Keepa lookup spends tokens - the user must have room for this seller and budget left
+      const { count: trackedCount, tracksSeller, error: trackedError } = await getTrackedSellerCount(
+        supabase,
+        userId,
+        existingSeller?.id
+      )
+      if (trackedError) {
+        throw new Error(`Database error: ${trackedError.message}`)
+      }
+      const sellerCheck = checkTrackedSellerLimit(trackedCount, tracksSeller, entitlements)
+      if (!sellerCheck.allowed) {
+        console.log(`[${requestId}] ⛔ Tracked seller limit: ${sellerCheck.error}`)
+        return planLimitResponse(sellerCheck)
+      }
+
+      const { usage: monthlyUsage, error: usageError } = await getMonthlyTokenUsage(supabase, [userId])
+      if (usageError) {
+        throw new Error(`Database error: ${usageError.message}`)
+      }
+      const budgetCheck = checkTokenBudget(monthlyUsage.get(userId) || 0, 0, entitlements)
+      if (!budgetCheck.allowed) {
+        console.log(`[${requestId}] ⛔ Token budget: ${budgetCheck.error}`)
+        return planLimitResponse(budgetCheck)
+      }
+
       // Fetch from Keepa API
       console.log(`[${requestId}] 🎯 Calling Keepa API (domain=${userDomain})...`)
       const keepaStart = Date.now()
-      const keepaResponse = await fetchSellerData(sellerId, userDomain, KEEPA_API_KEY, requestId)
+      const ledgerClient = new LedgerKeepaClient(keepaClient, ledgerSupabase, { source: 'EDGE', userId })
+      const keepaResponse = await fetchSellerData(sellerId, userDomain, ledgerClient, requestId)
       console.log(`[${requestId}] ⏱️ Keepa fetch: ${Date.now() - keepaStart}ms`)
       
       // Disabled verbose response logging - keeping logs clean
@@ -238,15 +309,10 @@ serve(async (req) => {
         // Check ASIN limit
         const asinCount = currentAsinList.length
 
-        if (asinCount > LIMITS.MAX_NEW_PRODUCTS) {
-          console.log(`[${requestId}] ❌ Seller exceeds ${LIMITS.MAX_NEW_PRODUCTS} ASIN limit: ${asinCount}`)
-          return Response.json(
-            {
-              success: false,
-              error: `Seller has ${asinCount.toLocaleString()} products, which exceeds our ${LIMITS.MAX_NEW_PRODUCTS.toLocaleString()} product limit`
-            },
-            { status: 400, headers: corsHeaders }
-          )
+        const productCheck = checkProductLimit(asinCount, entitlements)
+        if (!productCheck.allowed) {
+          console.log(`[${requestId}] ❌ Seller exceeds ${entitlements.label} ${productCheck.limit} ASIN limit: ${asinCount}`)
+          return planLimitResponse(productCheck)
         }
         let shouldProcessProducts = false
         let asinsToProcess: string[] = []
@@ -372,6 +438,7 @@ serve(async (req) => {
                 sellerId: keepaResponse.sellerId,
                 sellerName: sellerDisplayName, // PERFORMANCE: Use computed value
                 domain: userDomain,
+                marketplace: getMarketplaceInfo(userDomain),
                 asinCount: asinCount,
                 recentlyAdded: [],
                 lastCheckedAt: requestTimestamp, // PERFORMANCE: Use computed timestamp
@@ -427,6 +494,7 @@ serve(async (req) => {
               sellerId: keepaResponse.sellerId,
               sellerName: sellerDisplayName, // PERFORMANCE: Use computed value
               domain: userDomain,
+              marketplace: getMarketplaceInfo(userDomain),
               asinCount: asinCount,
               recentlyAdded: [], // Don't send ASIN list
               lastCheckedAt: requestTimestamp, // PERFORMANCE: Use computed timestamp
@@ -455,16 +523,19 @@ serve(async (req) => {
       console.log(`[${requestId}] 💥 Request failed after ${requestDuration}ms`)
 
       // Classify errors properly
-      if (error.message === 'RATE_LIMITED') {
+      if (error instanceof KeepaRateLimitError) {
         return Response.json(
           {
             success: false,
             error: 'Service temporarily unavailable due to rate limiting',
             suggestion: 'Please try again in a few minutes'
           },
-          { status: 429, headers: corsHeaders }
+          {
+            status: 429,
+            headers: { ...corsHeaders, 'Retry-After': String(Math.ceil((error.retryAfterMs ?? 60000) / 1000)) }
+          }
         )
-      } else if (error.message === 'KEEPA_SERVER_ERROR') {
+      } else if (error instanceof KeepaServerError || error instanceof KeepaNetworkError) {
         return Response.json(
           {
             success: false,
@@ -0,0 +1,14 @@
+-- Raw Keepa product payloads shared across sellers, keyed by (asin, domain).
+-- Entries older than CACHE_DURATION.PRODUCT (7 days) are treated as misses.
+create table if not exists public.keepa_product_cache (
+  asin text not null,
+  domain integer not null,
+  payload jsonb not null,
+  fetched_at timestamptz not null default now(),
+  primary key (asin, domain)
+);
+
+create index if not exists keepa_product_cache_fetched_at_idx
+  on public.keepa_product_cache (fetched_at);
+
+alter table public.keepa_product_cache enable row level security;
@@ -0,0 +1,28 @@
+-- Time series extracted from Keepa product responses (history=1, buybox=1, stock=1).
+-- One row per (seller, asin, domain, metric, timestamp); repeated fetches are idempotent.
+create table if not exists public.product_history (
+  id bigint generated always as identity primary key,
+  seller_id uuid not null references public.sellers(id) on delete cascade,
+  asin_id text not null,
+  domain integer not null,
+  metric text not null check (metric in ('storefront_price', 'buy_box_price', 'sales_rank', 'stock')),
+  recorded_at timestamptz not null,
+  value numeric not null,
+  created_at timestamptz not null default now(),
+  unique (seller_id, asin_id, domain, metric, recorded_at)
+);
+
+create index if not exists product_history_series_idx
+  on public.product_history (seller_id, asin_id, domain, metric, recorded_at);
+
+alter table public.product_history enable row level security;
+
+create policy "Users can read history for their tracked sellers"
+  on public.product_history for select
+  using (
+    exists (
+      select 1 from public.user_sellers us
+      where us.seller_id = product_history.seller_id
+        and us.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,13 @@
+-- Batches now finish as PARTIAL when some Keepa chunks fail after retries.
+-- failed_asins records exactly which ASINs still need fetching.
+alter table public.product_batches
+  add column if not exists failed_asins text[];
+
+-- Allow PARTIAL when status is backed by an enum type
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'batch_status') then
+    alter type public.batch_status add value if not exists 'PARTIAL';
+  end if;
+end
+$$;
@@ -0,0 +1,37 @@
+-- Every live offer per listing from Keepa (offers=100), shared across sellers like product_templates.
+-- Each refresh upserts the current offers and removes ones that are no longer live.
+create table if not exists public.product_offers (
+  id bigint generated always as identity primary key,
+  asin_id text not null,
+  domain integer not null,
+  offer_id integer not null,
+  offer_seller_id text not null,
+  price numeric,
+  shipping numeric,
+  condition text not null default 'NEW',
+  is_fba boolean not null default false,
+  is_prime boolean not null default false,
+  is_amazon boolean not null default false,
+  is_buy_box_winner boolean not null default false,
+  last_seen_at timestamptz,
+  captured_at timestamptz not null default now(),
+  unique (asin_id, domain, offer_id)
+);
+
+create index if not exists product_offers_seller_idx
+  on public.product_offers (offer_seller_id, domain);
+
+alter table public.product_offers enable row level security;
+
+create policy "Authenticated users can read offers"
+  on public.product_offers for select
+  to authenticated
+  using (true);
+
+-- Competition summary per tracked listing
+alter table public.seller_products
+  add column if not exists offer_count integer,
+  add column if not exists fba_offer_count integer,
+  add column if not exists fba_competitor_count integer,
+  add column if not exists buy_box_seller_id text,
+  add column if not exists has_buy_box boolean;
@@ -0,0 +1,30 @@
+-- Parent/variation links captured from Keepa (parentAsin, variations).
+alter table public.product_templates
+  add column if not exists parent_asin text,
+  add column if not exists variation_attributes jsonb not null default '[]'::jsonb;
+
+create index if not exists product_templates_parent_idx
+  on public.product_templates (parent_asin, domain)
+  where parent_asin is not null;
+
+-- Seller catalog rolled up by variation family. Standalone listings form a group of one.
+-- security_invoker keeps seller_products RLS in force for callers.
+create or replace view public.seller_catalog_groups
+with (security_invoker = true) as
+select
+  sp.seller_id,
+  sp.domain,
+  coalesce(pt.parent_asin, sp.asin_id) as group_asin,
+  bool_or(pt.parent_asin is not null) as is_variation_family,
+  (array_agg(pt.title order by sp.monthly_sales desc nulls last))[1] as title,
+  (array_agg(pt.brand order by sp.monthly_sales desc nulls last))[1] as brand,
+  count(*) as variant_count,
+  array_agg(sp.asin_id order by sp.asin_id) as asins,
+  sum(sp.monthly_sales) filter (where sp.monthly_sales >= 0) as monthly_sales,
+  sum(sp.stock_count) filter (where sp.stock_count >= 0) as stock_count,
+  min(sp.storefront_price) as min_price,
+  max(sp.storefront_price) as max_price,
+  min(sp.sales_rank) filter (where sp.sales_rank > 0) as best_sales_rank
+from public.seller_products sp
+left join public.product_templates pt on pt.id = sp.product_template_id
+group by sp.seller_id, sp.domain, coalesce(pt.parent_asin, sp.asin_id);
@@ -0,0 +1,67 @@
+-- Prices are stored in the marketplace currency (MARKETPLACES registry); record which one.
+alter table public.seller_products
+  add column if not exists currency text;
+
+alter table public.product_offers
+  add column if not exists currency text;
+
+-- Mirrors MARKETPLACES in supabase/functions/_domain/constants.ts, the single source of truth -
+-- keep the two in sync. old_divisor is what every domain used before the registry (/100).
+create temporary table marketplace_registry (
+  domain integer primary key,
+  host text not null,
+  currency text not null,
+  price_divisor integer not null,
+  old_divisor integer not null default 100
+);
+
+insert into marketplace_registry (domain, host, currency, price_divisor) values
+  (1, 'amazon.com', 'USD', 100),
+  (2, 'amazon.co.uk', 'GBP', 100),
+  (3, 'amazon.de', 'EUR', 100),
+  (4, 'amazon.fr', 'EUR', 100),
+  (5, 'amazon.co.jp', 'JPY', 1),
+  (6, 'amazon.ca', 'CAD', 100),
+  (8, 'amazon.it', 'EUR', 100),
+  (9, 'amazon.es', 'EUR', 100),
+  (10, 'amazon.in', 'INR', 100),
+  (11, 'amazon.com.mx', 'MXN', 100);
+
+-- Product URLs used to point at amazon.com for every domain
+update public.product_templates pt
+set product_url = 'https://www.' || m.host || '/dp/' || pt.asin_id
+from marketplace_registry m
+where m.domain = pt.domain;
+
+-- Rows stored under the old divisor are rescaled once. A null currency marks rows written
+-- before this migration, so history is rescaled before seller_products gets its currency.
+update public.product_history h
+set value = h.value * m.old_divisor / m.price_divisor
+from marketplace_registry m
+where m.domain = h.domain
+  and m.price_divisor <> m.old_divisor
+  and h.metric in ('storefront_price', 'buy_box_price')
+  and exists (
+    select 1 from public.seller_products sp
+    where sp.seller_id = h.seller_id
+      and sp.asin_id = h.asin_id
+      and sp.currency is null
+  );
+
+update public.product_offers o
+set price = o.price * m.old_divisor / m.price_divisor,
+    shipping = o.shipping * m.old_divisor / m.price_divisor,
+    currency = m.currency
+from marketplace_registry m
+where m.domain = o.domain
+  and o.currency is null;
+
+update public.seller_products sp
+set storefront_price = sp.storefront_price * m.old_divisor / m.price_divisor,
+    buy_box_price = sp.buy_box_price * m.old_divisor / m.price_divisor,
+    currency = m.currency
+from marketplace_registry m
+where m.domain = sp.domain
+  and sp.currency is null;
+
+drop table marketplace_registry;
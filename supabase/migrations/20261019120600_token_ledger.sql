@@ -0,0 +1,45 @@
+-- Actual Keepa token consumption, one row per Keepa request (tokensConsumed from the response).
+-- Replaces product_batches.estimated_tokens as the source for usage limits, routing and billing.
+create table if not exists public.token_ledger (
+  id bigint generated always as identity primary key,
+  operation text not null check (operation in ('SELLER_LOOKUP', 'SELLER_DISCOVERY', 'PRODUCT_FETCH')),
+  tokens_consumed integer not null default 0 check (tokens_consumed >= 0),
+  tokens_left integer,
+  status_code integer,
+  user_id uuid references auth.users(id) on delete set null,
+  seller_id uuid references public.sellers(id) on delete set null,
+  keepa_seller_id text,
+  batch_id uuid references public.product_batches(id) on delete set null,
+  domain integer,
+  asin_count integer not null default 0,
+  source text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists token_ledger_user_created_idx
+  on public.token_ledger (user_id, created_at);
+
+create index if not exists token_ledger_batch_idx
+  on public.token_ledger (batch_id)
+  where batch_id is not null;
+
+alter table public.token_ledger enable row level security;
+
+create policy "Users can read their own token usage"
+  on public.token_ledger for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- No insert policy: rows are written by service-role clients only, so users can't record their own usage
+
+-- Daily totals per user and operation for billing
+create or replace view public.token_usage_daily
+with (security_invoker = true) as
+select
+  user_id,
+  date_trunc('day', created_at) as usage_date,
+  operation,
+  sum(tokens_consumed) as tokens_consumed,
+  count(*) as request_count
+from public.token_ledger
+group by user_id, date_trunc('day', created_at), operation;
@@ -0,0 +1,5 @@
+-- Why a batch went to the edge function or the queue (shouldUseQueue), kept for routing analysis.
+alter table public.product_batches
+  add column if not exists routing_reason text,
+  add column if not exists routing_threshold integer,
+  add column if not exists routing_token_percent numeric;
@@ -0,0 +1,42 @@
+-- Fair-share claiming scans the oldest unclaimed PENDING batches and per-user in-flight counts.
+create index if not exists product_batches_pending_claim_idx
+  on public.product_batches (created_at)
+  where status = 'PENDING' and worker_id is null;
+
+create index if not exists product_batches_user_status_idx
+  on public.product_batches (user_id, status);
+
+create index if not exists product_batches_pending_user_claim_idx
+  on public.product_batches (user_id, created_at)
+  where status = 'PENDING' and worker_id is null;
+
+-- Candidate pool for claimFairBatches: the oldest claimable PENDING batches of every user rather
+-- than the oldest overall, so one user with a deep backlog can't fill the pool. Batches without
+-- a user share one lane, as in selectFairBatches. plpgsql resolves the body at call time - the
+-- scheduled_for / next_attempt_at columns arrive with the deferral and retry migrations.
+create or replace function public.fair_claim_candidates(p_per_user integer, p_pool integer)
+returns setof public.product_batches
+language plpgsql
+stable
+as $$
+begin
+  return query
+  select b.*
+  from public.product_batches b
+  where b.id in (
+    select ranked.id
+    from (
+      select c.id,
+             row_number() over (partition by c.user_id order by c.created_at) as user_rank
+      from public.product_batches c
+      where c.status = 'PENDING'
+        and c.worker_id is null
+        and (c.scheduled_for is null or c.scheduled_for <= now())      -- Deferred batches wait until due
+        and (c.next_attempt_at is null or c.next_attempt_at <= now())  -- Retries wait out their backoff
+    ) ranked
+    where ranked.user_rank <= p_per_user
+  )
+  order by b.created_at
+  limit p_pool;
+end;
+$$;
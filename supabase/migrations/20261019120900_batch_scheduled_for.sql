@@ -0,0 +1,7 @@
+-- Deferred batches: workers skip PENDING batches until scheduled_for has passed.
+alter table public.product_batches
+  add column if not exists scheduled_for timestamptz;
+
+create index if not exists product_batches_scheduled_for_idx
+  on public.product_batches (scheduled_for)
+  where status = 'PENDING' and scheduled_for is not null;
@@ -0,0 +1,11 @@
+-- Queue status ranks active batches oldest-first and measures throughput from recent completions.
+create index if not exists product_batches_active_created_idx
+  on public.product_batches (created_at)
+  where status in ('PENDING', 'PROCESSING');
+
+create index if not exists product_batches_finished_completed_idx
+  on public.product_batches (completed_at)
+  where status in ('COMPLETED', 'PARTIAL');
+
+create index if not exists product_batches_seller_status_idx
+  on public.product_batches (seller_id, status, created_at);
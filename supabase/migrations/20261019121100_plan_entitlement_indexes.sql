@@ -0,0 +1,6 @@
+-- Entitlement checks look up a user's active plan and tracked-seller count on every lookup.
+create index if not exists subscriptions_user_status_idx
+  on public.subscriptions (user_id, status);
+
+create index if not exists user_sellers_user_idx
+  on public.user_sellers (user_id);
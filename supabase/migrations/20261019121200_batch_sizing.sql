@@ -0,0 +1,4 @@
+-- Adaptive batch sizing: the size chosen for a seller's run and why (token fill, worker spread).
+alter table public.product_batches
+  add column if not exists batch_size integer,
+  add column if not exists batch_size_reason text;
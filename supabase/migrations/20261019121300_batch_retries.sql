@@ -0,0 +1,21 @@
+-- Automatic retry with backoff: TRANSIENT failures return queued batches to PENDING until
+-- next_attempt_at; HARD failures (and exhausted retries) stay FAILED.
+alter table public.product_batches
+  add column if not exists retry_count integer not null default 0,
+  add column if not exists next_attempt_at timestamptz,
+  add column if not exists last_error_type text;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'product_batches_last_error_type_check'
+  ) then
+    alter table public.product_batches
+      add constraint product_batches_last_error_type_check
+      check (last_error_type is null or last_error_type in ('TRANSIENT', 'HARD'));
+  end if;
+end $$;
+
+create index if not exists product_batches_next_attempt_idx
+  on public.product_batches (next_attempt_at)
+  where status = 'PENDING' and next_attempt_at is not null;
@@ -0,0 +1,24 @@
+-- Dead-letter queue: terminal failures park in DEAD_LETTER with failure_context until an
+-- admin requeues (optionally re-split into new batches) or discards them.
+alter table public.product_batches
+  add column if not exists failure_context jsonb,
+  add column if not exists dead_lettered_at timestamptz,
+  add column if not exists requeued_at timestamptz,
+  add column if not exists requeued_from uuid references public.product_batches(id) on delete set null,
+  add column if not exists discarded_at timestamptz,
+  add column if not exists discarded_by uuid references auth.users(id) on delete set null,
+  add column if not exists discard_reason text;
+
+-- Allow the new statuses when status is backed by an enum type
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'batch_status') then
+    alter type public.batch_status add value if not exists 'DEAD_LETTER';
+    alter type public.batch_status add value if not exists 'DISCARDED';
+  end if;
+end
+$$;
+
+-- Not a partial index: a freshly added enum value can't be referenced in the same transaction
+create index if not exists product_batches_dead_letter_idx
+  on public.product_batches (status, dead_lettered_at desc);
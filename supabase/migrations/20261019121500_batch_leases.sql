@@ -0,0 +1,17 @@
+-- Leases on PROCESSING batches: claims set lease_expires_at, workers renew it, and only
+-- expired leases are reclaimed (reclaim_count / reclaimed_from_worker_id record each takeover).
+alter table public.product_batches
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists reclaim_count integer not null default 0,
+  add column if not exists reclaimed_from_worker_id text;
+
+-- Batches already in flight get one lease window from when they started
+update public.product_batches
+set lease_expires_at = coalesce(started_at, updated_at, now()) + interval '5 minutes'
+where status = 'PROCESSING'
+  and worker_id is not null
+  and lease_expires_at is null;
+
+create index if not exists product_batches_lease_expiry_idx
+  on public.product_batches (lease_expires_at)
+  where status = 'PROCESSING';
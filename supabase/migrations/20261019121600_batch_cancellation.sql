@@ -0,0 +1,17 @@
+-- User cancellation: PENDING batches go straight to CANCELLED, PROCESSING batches get
+-- cancel_requested_at and their worker stops before its next Keepa chunk.
+alter table public.product_batches
+  add column if not exists cancel_requested_at timestamptz,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancelled_by uuid references auth.users(id) on delete set null,
+  add column if not exists tokens_saved integer;
+
+-- Allow the new status when status is backed by an enum type
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'batch_status') then
+    alter type public.batch_status add value if not exists 'CANCELLED';
+  end if;
+end
+$$;
+
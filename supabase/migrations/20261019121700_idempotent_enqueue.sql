@@ -0,0 +1,11 @@
+-- Idempotent enqueue: every batch group carries the key of the (seller, ASIN set) it was
+-- created for. Only one active group per key can exist, so concurrent lookups of the same
+-- seller can't both insert - the loser reads back the winner's batches.
+alter table public.product_batches
+  add column if not exists enqueue_key text,
+  add column if not exists batch_index integer;
+
+create unique index if not exists product_batches_active_enqueue_key_idx
+  on public.product_batches (enqueue_key, batch_index)
+  where enqueue_key is not null
+    and status in ('PENDING', 'PROCESSING');
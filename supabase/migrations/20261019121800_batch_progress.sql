@@ -0,0 +1,58 @@
+-- Live batch progress: processProductBatch and the product-batches worker insert one row per
+-- event (started, chunk fetched, products inserted, completed / failed / cancelled, or retrying
+-- after a TRANSIENT failure - not terminal). Workers prune rows older than
+-- BATCH_PROGRESS.RETENTION_MS on exit; batch_progress_created_idx keeps that cheap.
+-- Clients subscribe through Supabase Realtime, e.g.
+--   supabase.channel('progress').on('postgres_changes',
+--     { event: 'INSERT', schema: 'public', table: 'batch_progress', filter: `seller_id=eq.${sellerUuid}` }, ...)
+create table if not exists public.batch_progress (
+  id bigint generated always as identity primary key,
+  batch_id uuid not null references public.product_batches(id) on delete cascade,
+  seller_id uuid not null references public.sellers(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete set null,
+  event text not null check (event in (
+    'BATCH_STARTED', 'CHUNK_FETCHED', 'PRODUCTS_INSERTED',
+    'BATCH_COMPLETED', 'BATCH_FAILED', 'BATCH_CANCELLED', 'BATCH_RETRYING'
+  )),
+  processed integer not null default 0,
+  failed integer not null default 0,
+  total integer not null default 0,
+  progress integer not null default 0 check (progress between 0 and 100),
+  message text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists batch_progress_seller_created_idx
+  on public.batch_progress (seller_id, created_at desc);
+
+create index if not exists batch_progress_batch_idx
+  on public.batch_progress (batch_id);
+
+create index if not exists batch_progress_created_idx
+  on public.batch_progress (created_at);
+
+alter table public.batch_progress enable row level security;
+
+-- Realtime only delivers rows the subscriber can select
+create policy "Users can watch progress for their tracked sellers"
+  on public.batch_progress for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.user_sellers us
+      where us.seller_id = batch_progress.seller_id
+        and us.user_id = auth.uid()
+    )
+  );
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+     and not exists (
+       select 1 from pg_publication_tables
+       where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'batch_progress'
+     ) then
+    alter publication supabase_realtime add table public.batch_progress;
+  end if;
+end
+$$;
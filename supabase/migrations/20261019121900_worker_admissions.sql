@@ -0,0 +1,25 @@
+-- Admission control log: one row per decision on whether queued work gets a new
+-- product-batches run or is left to the live workers' cross-seller claiming.
+create table if not exists public.worker_admissions (
+  id bigint generated always as identity primary key,
+  seller_id uuid references public.sellers(id) on delete set null,
+  user_id uuid references auth.users(id) on delete set null,
+  source text not null,
+  priority text,
+  admitted boolean not null,
+  reason text not null,
+  live_workers integer not null default 0,
+  max_workers integer not null default 0,
+  pending_batches integer not null default 0,
+  backlog_capacity integer not null default 0,
+  new_batches integer,
+  trigger_run_id text,
+  trigger_error text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists worker_admissions_created_idx
+  on public.worker_admissions (created_at desc);
+
+-- Service role only - tuning data, not user-facing
+alter table public.worker_admissions enable row level security;
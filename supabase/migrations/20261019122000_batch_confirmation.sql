@@ -0,0 +1,26 @@
+-- Confirmation workflow: large new-ASIN deltas are created AWAITING_CONFIRMATION (never
+-- claimed) until a user tracking the seller confirms them; declines pass the offer on.
+alter table public.product_batches
+  add column if not exists confirmation_declined_user_ids uuid[] not null default '{}';
+
+-- Allow the new status when status is backed by an enum type
+do $$
+begin
+  if exists (select 1 from pg_type where typname = 'batch_status') then
+    alter type public.batch_status add value if not exists 'AWAITING_CONFIRMATION';
+  end if;
+end
+$$;
+
+-- Held groups take part in idempotent enqueue too. Compare as text: the new enum value
+-- can't be used as a literal in the transaction that adds it.
+drop index if exists public.product_batches_active_enqueue_key_idx;
+
+create unique index if not exists product_batches_active_enqueue_key_idx
+  on public.product_batches (enqueue_key, batch_index)
+  where enqueue_key is not null
+    and status::text in ('AWAITING_CONFIRMATION', 'PENDING', 'PROCESSING');
+
+create index if not exists product_batches_awaiting_confirmation_idx
+  on public.product_batches (seller_id, created_at)
+  where status::text = 'AWAITING_CONFIRMATION';
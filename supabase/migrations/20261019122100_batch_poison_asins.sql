@@ -0,0 +1,5 @@
+-- Failed product upserts are bisected until the offending rows are isolated; those
+-- products are recorded here with their DB error ([{ "asin": ..., "error": ... }])
+-- while the rest of the batch is stored and the batch finishes PARTIAL.
+alter table public.product_batches
+  add column if not exists poison_asins jsonb;
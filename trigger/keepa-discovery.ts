@@ -3,8 +3,18 @@ import { createClient } from "@supabase/supabase-js";
 
 // Import infrastructure operations
 import { fetchSellerData } from "../supabase/functions/_infrastructure/keepa-api.ts";
-import { findNewAsins, saveSeller } from "../supabase/functions/_infrastructure/database.ts";
+import { createKeepaClient } from "../supabase/functions/_infrastructure/keepa-client.ts";
+import { LedgerKeepaClient } from "../supabase/functions/_infrastructure/token-ledger.ts";
+import { KeepaError, KeepaRateLimitError, isAccountWideKeepaError, keepaRetryDecision } from "../supabase/functions/_infrastructure/keepa-errors.ts";
+import { findNewAsins, saveSeller, getUserPlanTypes, getMonthlyTokenUsage } from "../supabase/functions/_infrastructure/database.ts";
 import { enqueueProductBatches } from "../supabase/functions/_infrastructure/queue.ts";
+import { TOKEN_OPERATION, PLAN_ENTITLEMENTS, MONITORING } from "../supabase/functions/_domain/constants.ts";
+import { getPlanEntitlements, getMostGenerousPlan, isRefreshDue, checkTokenBudget } from "../supabase/functions/_domain/entitlements.ts";
+
+// Shortest monitoring interval any plan gets - sellers fresher than this can't be due for anyone
+const MIN_MONITORING_INTERVAL_MS = Math.min(
+  ...Object.values(PLAN_ENTITLEMENTS).map(plan => plan.monitoringIntervalMs)
+);
 
 // Automated seller monitoring job - runs every 2 hours
 export const keepaDiscovery = task({
@@ -15,6 +25,10 @@ export const keepaDiscovery = task({
     minTimeoutInMs: 10000,
     maxTimeoutInMs: 60000,
   },
+  // Keepa-aware retries: bad key / billing never retries, rate limits wait for the refill
+  handleError: async (payload: any, error: unknown) => {
+    return keepaRetryDecision(error);
+  },
   run: async (payload: any, { ctx }) => {
     logger.log("🔍 Starting automated seller monitoring", { 
       payload, 
@@ -28,31 +42,75 @@ export const keepaDiscovery = task({
         process.env.SUPABASE_SERVICE_ROLE_KEY!
       );
 
-      const KEEPA_API_KEY = process.env.KEEPA_API_KEY!;
+      // Live API, or offline fixtures when KEEPA_FIXTURES_PATH is set
+      const keepaClient = createKeepaClient(process.env.KEEPA_API_KEY!, { supabase });
 
-      // Get eligible sellers for monitoring (12h+ stale, active users with subscriptions)
+      // Get candidate sellers for monitoring (stale for the fastest plan, active users with subscriptions).
+      // Plans with longer intervals leave many of those not yet due, so page until enough are.
       logger.log("📊 Querying eligible sellers for monitoring...");
-      
-      const { data: sellers, error } = await supabase
-        .from('sellers')
-        .select(`
-          id, seller_id, domain, last_checked_at, asin_count, is_active,
-          user_sellers!inner(
-            user_id,
-            users!inner(subscription_status)
-          )
-        `)
-        .eq('is_active', true)
-        .is('trashed_at', null)
-        .in('user_sellers.users.subscription_status', ['active', 'trialing'])
-        .or('last_checked_at.is.null,last_checked_at.lt.' + new Date(Date.now() - 12 * 60 * 60 * 1000).toISOString())
-        .order('last_checked_at', { ascending: true, nullsFirst: true })
-        .limit(50);
-
-      if (error) {
-        logger.error("❌ Error fetching eligible sellers", { error });
-        throw error;
+
+      const sellers: any[] = [];
+      const staleBefore = new Date(Date.now() - MIN_MONITORING_INTERVAL_MS).toISOString();
+      for (let page = 0; page < MONITORING.MAX_CANDIDATE_PAGES && sellers.length < MONITORING.MAX_SELLERS_PER_RUN; page++) {
+        const from = page * MONITORING.CANDIDATE_POOL;
+        const { data: candidates, error } = await supabase
+          .from('sellers')
+          .select(`
+            id, seller_id, domain, last_checked_at, asin_count, is_active,
+            user_sellers!inner(
+              user_id,
+              users!inner(subscription_status)
+            )
+          `)
+          .eq('is_active', true)
+          .is('trashed_at', null)
+          .in('user_sellers.users.subscription_status', ['active', 'trialing'])
+          .or('last_checked_at.is.null,last_checked_at.lt.' + staleBefore)
+          .order('last_checked_at', { ascending: true, nullsFirst: true })
+          .order('id', { ascending: true })
+          .range(from, from + MONITORING.CANDIDATE_POOL - 1);
+
+        if (error) {
+          logger.error("❌ Error fetching eligible sellers", { error });
+          throw error;
+        }
+
+        if (!candidates || candidates.length === 0) {
+          break;
+        }
+
+        // Plan entitlements of every tracking user decide which candidates are due
+        const userIds: string[] = [...new Set<string>(candidates.flatMap(s => s.user_sellers?.map((us: any) => us.user_id) || []))];
+        const { plans, error: planError } = await getUserPlanTypes(supabase, userIds);
+        const { usage, error: usageError } = await getMonthlyTokenUsage(supabase, userIds);
+        if (planError || usageError) {
+          logger.error("❌ Error loading plan entitlements", { planError, usageError });
+          throw planError || usageError;
+        }
+
+        sellers.push(...candidates.filter(seller => {
+          // Trackers who have spent their monthly budget don't keep a seller monitored
+          const payingUsers = (seller.user_sellers || [])
+            .map((us: any) => us.user_id)
+            .filter((userId: string) => {
+              const plan = getPlanEntitlements(plans.get(userId) ?? null);
+              return checkTokenBudget(usage.get(userId) || 0, 0, plan).allowed;
+            });
+
+          if (payingUsers.length === 0) {
+            return false;
+          }
+
+          const plan = getMostGenerousPlan(payingUsers.map((userId: string) => plans.get(userId) ?? null));
+          return isRefreshDue(seller.last_checked_at, plan.monitoringIntervalMs)
+            && (seller.asin_count || 0) <= plan.maxProductsPerSeller;
+        }));
+
+        if (candidates.length < MONITORING.CANDIDATE_POOL) {
+          break;
+        }
       }
+      sellers.splice(MONITORING.MAX_SELLERS_PER_RUN);
 
       logger.log("📊 Found eligible sellers for monitoring", { 
         count: sellers?.length || 0,
@@ -80,7 +138,12 @@ export const keepaDiscovery = task({
           });
 
           // 1. Fetch current seller data from Keepa API
-          const keepaData = await fetchSellerData(seller.seller_id, seller.domain, KEEPA_API_KEY);
+          const ledgerClient = new LedgerKeepaClient(keepaClient, supabase, {
+            source: 'TRIGGER_DEV',
+            sellerId: seller.id,
+            sellerOperation: TOKEN_OPERATION.SELLER_DISCOVERY
+          });
+          const keepaData = await fetchSellerData(seller.seller_id, seller.domain, ledgerClient);
           if (!keepaData) {
             logger.warn(`⚠️ No Keepa data for seller ${seller.seller_id}`);
             results.push({
@@ -136,6 +199,12 @@ export const keepaDiscovery = task({
           });
 
         } catch (error) {
+          // Key, billing and rate-limit failures hit every remaining seller - abort the run
+          if (error instanceof KeepaRateLimitError || (error instanceof KeepaError && isAccountWideKeepaError(error.kind))) {
+            logger.error(`❌ Keepa ${error.kind} - aborting monitoring cycle`, { sellerId: seller.seller_id, statusCode: error.statusCode });
+            throw error;
+          }
+
           logger.error(`❌ Failed processing seller ${seller.seller_id}`, { 
             error: error.message,
             stack: error.stack 
@@ -1,11 +1,18 @@
-import { logger, task } from "@trigger.dev/sdk/v3";
+import { logger, task, tasks } from "@trigger.dev/sdk/v3";
 import { createClient } from "@supabase/supabase-js";
 
 // Import infrastructure operations
-import { claimProductBatches } from "../supabase/functions/_infrastructure/database.ts";
+import { claimProductBatches, deadLetterBatch, renewBatchLeases, markBatchCancelled, expireHeldBatches } from "../supabase/functions/_infrastructure/database.ts";
+import { buildFailureContext } from "../supabase/functions/_domain/dead-letter.ts";
+import { FAILURE_STAGE, KEEPA, PROGRESS_EVENT } from "../supabase/functions/_domain/constants.ts";
 import { processProductBatch } from "../supabase/functions/_infrastructure/batch-processing.ts";
+import { publishBatchProgress, pruneBatchProgress } from "../supabase/functions/_infrastructure/batch-progress.ts";
+import { triggerSingleProcessingJob, countClaimableBatches } from "../supabase/functions/_infrastructure/queue.ts";
 import { calculateRequiredTokens } from "../supabase/functions/_domain/tokens.ts";
 import { WebhookNotifier } from "../supabase/functions/_infrastructure/discord.ts";
+import { createKeepaClient } from "../supabase/functions/_infrastructure/keepa-client.ts";
+import { getLiveTokenFillPercent } from "../supabase/functions/_infrastructure/keepa-scheduler.ts";
+import { isAccountWideKeepaError, keepaRetryDecision } from "../supabase/functions/_infrastructure/keepa-errors.ts";
 
 // Dynamic memory management based on machine size
 const MACHINE_MEMORY_LIMITS = {
@@ -43,6 +50,10 @@ export const productBatches = task({
       machine: "medium-1x", // Auto-upgrade to 2GB if OOM
     },
   },
+  // Keepa-aware retries: bad key / billing never retries, rate limits wait for the refill
+  handleError: async (payload: { sellerId: string; priority: 'HIGH' | 'LOW' }, error: unknown) => {
+    return keepaRetryDecision(error);
+  },
   run: async (payload: { sellerId: string; priority: 'HIGH' | 'LOW' }, { ctx }) => {
     logger.info(`WORKER | v2.5.0 | seller=${payload.sellerId.substring(0,8)} | priority=${payload.priority} | started`);
 
@@ -62,6 +73,9 @@ export const productBatches = task({
         process.env.SUPABASE_SERVICE_ROLE_KEY!
       );
 
+      // Keepa client shared by every batch in this run (offline fixtures when KEEPA_FIXTURES_PATH is set)
+      const keepaClient = createKeepaClient(undefined, { supabase });
+
       // Step 2: Atomic batch claiming with worker ID
       const workerId = `${ctx.run.id}`;
       
@@ -117,7 +131,9 @@ export const productBatches = task({
         // For now just continue without the complex token state checking
         // The domain functions will handle token calculations when needed
         
-        const claimedBatches = await claimProductBatches(supabase, payload.sellerId, workerId, 3);
+        // Low Keepa fill pushes heavy users behind everyone else in the fair-share claim
+        const systemTokenPercent = await getLiveTokenFillPercent(supabase);
+        const claimedBatches = await claimProductBatches(supabase, payload.sellerId, workerId, 3, { systemTokenPercent });
 
         if (!claimedBatches || claimedBatches.length === 0) {
           const successRate = totalProcessedInJob === 0 ? 0 : Math.round((totalProcessedInJob / (totalProcessedInJob + totalFailedInJob)) * 100);
@@ -154,6 +170,31 @@ export const productBatches = task({
         
         // Get seller info for THIS specific batch
         const batchSellerInfo = await getBatchSellerInfo(batch.seller_id);
+
+        // Heartbeat: this batch and the ones still waiting in this claim stay leased to us
+        const { renewed, cancelRequested } = await renewBatchLeases(supabase, claimedBatches.slice(batchIndex).map(b => b.id), workerId);
+        if (!renewed.includes(batch.id)) {
+          logger.warn(`LEASE | ${batch.id.substring(0,8)} | lost to another worker | skipping`);
+          continue;
+        }
+
+        // User cancelled after we claimed it - release it without spending tokens
+        if (cancelRequested.includes(batch.id)) {
+          const tokensSaved = batch.product_count * KEEPA.TOKENS_PER_PRODUCT;
+          await markBatchCancelled(supabase, batch.id, tokensSaved, {
+            error_message: `Cancelled by user: ${batch.product_count} ASINs skipped`
+          }, workerId);
+          await publishBatchProgress(supabase, { batchId: batch.id, sellerId: batch.seller_id, userId: batch.user_id }, PROGRESS_EVENT.BATCH_CANCELLED,
+            { processed: 0, total: batch.product_count }, `Cancelled by user: ${batch.product_count} ASINs skipped`);
+          logger.info(`BATCH | ${batch.id.substring(0,8)} | CANCELLED before start | ${tokensSaved} tokens saved`);
+          batchResults.push({
+            batchId: batch.id,
+            success: 0,
+            failed: 0,
+            status: 'CANCELLED'
+          });
+          continue;
+        }
         
         try {
           // Use shared processor for consistent batch handling
@@ -165,13 +206,42 @@ export const productBatches = task({
             supabase,
             {
               batchId: batch.id,
+              userId: batch.user_id,
               source: 'TRIGGER_DEV',
-              createBatch: false  // Batch already exists
+              createBatch: false,  // Batch already exists
+              keepaClient,
+              retryCount: batch.retry_count ?? 0,
+              workerId,
+              waitingBatchIds: claimedBatches.slice(batchIndex + 1).map(b => b.id)
             }
           );
 
+          // Reclaimed mid-batch - the new owner reports it, nothing of ours to count
+          if (processingResult.leaseLost) {
+            logger.warn(`LEASE | ${batch.id.substring(0,8)} | lost mid-batch | abandoned to the reclaiming worker`);
+            continue;
+          }
+
           const duration = ((Date.now() - startTime) / 1000).toFixed(1);
-          logger.info(`BATCH | ${batch.id.substring(0,8)} (${batchIndex + 1}/${claimedBatches.length}) | ${processingResult.processedCount} processed, ${processingResult.failedCount} failed | ${duration}s`);
+          logger.info(`BATCH | ${batch.id.substring(0,8)} (${batchIndex + 1}/${claimedBatches.length}) | ${processingResult.processedCount} processed, ${processingResult.failedCount} failed | cache ${processingResult.cacheHits ?? 0} hit/${processingResult.cacheMisses ?? 0} miss | ${duration}s`);
+
+          // TRANSIENT failure: batch is PENDING again - wake a worker when its backoff ends
+          if (processingResult.retryScheduledAt) {
+            logger.warn(`BATCH | ${batch.id.substring(0,8)} | RETRY at ${processingResult.retryScheduledAt} | ${processingResult.errorKind}`);
+            await triggerSingleProcessingJob(batch.seller_id, tasks, payload.priority, new Date(processingResult.retryScheduledAt));
+          }
+
+          if (processingResult.batchStatus === 'CANCELLED') {
+            logger.info(`BATCH | ${batch.id.substring(0,8)} | CANCELLED mid-batch | ${processingResult.cancelledAsins?.length ?? 0} ASINs skipped | ${processingResult.tokensSaved ?? 0} tokens saved`);
+          }
+
+          if (processingResult.poisonAsins?.length) {
+            logger.warn(`BATCH | ${batch.id.substring(0,8)} | POISON | ${processingResult.poisonAsins.map(p => p.asin).join(',')} rejected by the database`);
+          }
+
+          if (processingResult.failedAsins?.length) {
+            logger.warn(`BATCH | ${batch.id.substring(0,8)} | PARTIAL | ${processingResult.failedAsins.length} ASINs failed at Keepa after retries`);
+          }
 
           completedBatches++;
           totalProcessed += processingResult.processedCount;
@@ -184,28 +254,40 @@ export const productBatches = task({
             status: processingResult.batchStatus
           });
 
+          // Bad key / billing: every further batch would fail - stop claiming work
+          if (isAccountWideKeepaError(processingResult.errorKind)) {
+            logger.error(`WORKER | Keepa ${processingResult.errorKind} | stopping after current claim`);
+            WebhookNotifier.error('Product Batches', `Keepa ${processingResult.errorKind} - worker stopped claiming batches`);
+            hasMoreWork = false;
+          }
+
         } catch (batchError) {
           const currentMemory = process.memoryUsage();
           const memoryInfo = `RSS: ${Math.round(currentMemory.rss / 1024 / 1024)}MB, Heap: ${Math.round(currentMemory.heapUsed / 1024 / 1024)}MB`;
           
           logger.error(`BATCH | ${batch.id.substring(0,8)} (${batchIndex + 1}/${claimedBatches.length}) | FAILED | error="${batchError.message}"`);
           
-          // CHECKPOINT: Mark specific failure reason with memory info
+          // CHECKPOINT: Dead-letter with the failure reason and memory info
           try {
-            await supabase
-              .from('product_batches')
-              .update({ 
-                status: 'FAILED',
-                updated_at: new Date().toISOString(),
-                error_message: `${batchError.message} | Memory: ${memoryInfo}`,
-                memory_stats: {
-                  final_heap_mb: Math.round(currentMemory.heapUsed / 1024 / 1024),
-                  product_count: batch.product_count,
-                  machine_type: currentMachine,
-                  error_stage: "batch_processing"
-                }
-              })
-              .eq('id', batch.id);
+            const memoryStats = {
+              final_heap_mb: Math.round(currentMemory.heapUsed / 1024 / 1024),
+              product_count: batch.product_count,
+              machine_type: currentMachine,
+              error_stage: "batch_processing"
+            };
+            await deadLetterBatch(
+              supabase,
+              batch.id,
+              buildFailureContext(FAILURE_STAGE.WORKER, 'HARD', `${batchError.message} | Memory: ${memoryInfo}`, {
+                retryCount: batch.retry_count ?? 0,
+                workerId,
+                memoryStats
+              }),
+              { memory_stats: memoryStats },
+              workerId
+            );
+            await publishBatchProgress(supabase, { batchId: batch.id, sellerId: batch.seller_id, userId: batch.user_id }, PROGRESS_EVENT.BATCH_FAILED,
+              { processed: 0, failed: batch.product_count, total: batch.product_count }, batchError.message);
           } catch (updateError) {
             logger.error(`BATCH: Update failed batch=${batch.id.substring(0,8)} error="${updateError.message}"`);
           }
@@ -215,7 +297,7 @@ export const productBatches = task({
             batchId: batch.id,
             success: 0,
             failed: batch.product_count,
-            status: 'FAILED',
+            status: 'DEAD_LETTER',
             error: batchError.message
           });
         }
@@ -282,6 +364,24 @@ export const productBatches = task({
       }
     }
 
+    // Admission skips triggering while this worker is live, so batches queued as it exits (or left at
+    // the timeout) would wait for the next enqueue - hand them to a successor run instead
+    const claimableLeft = await countClaimableBatches(supabase);
+    if (claimableLeft > 0) {
+      logger.info(`WORKER | ${claimableLeft} claimable batches left | triggering successor`);
+      await triggerSingleProcessingJob(payload.sellerId, tasks, payload.priority);
+    }
+
+    await pruneBatchProgress(supabase);
+
+    // Held groups on sellers nobody looks at again would otherwise wait forever
+    const { expired, error: expireError } = await expireHeldBatches(supabase);
+    if (expireError) {
+      logger.warn(`WORKER | held batch expiry failed | ${expireError.message}`);
+    } else if (expired > 0) {
+      logger.info(`WORKER | ${expired} held batches expired unconfirmed`);
+    }
+
     // Final webhook notification: Complete continuous processing job
     WebhookNotifier.completed('Continuous Product Batches', 
       `🔄 Continuous processing complete: ${loopCount} loops, ${totalProcessedInJob} total products processed`